@@ -1,59 +1,95 @@
-import { useState, useEffect } from 'react';
-import { Database, BarChart3, Table as TableIcon } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Database, BarChart3, Table as TableIcon, Undo2, Redo2, FileText } from 'lucide-react';
 import { LoginPage } from './components/LoginPage';
 import { FieldBuilder } from './components/FieldBuilder';
 import { DataTable } from './components/DataTable';
 import { ChartBuilder } from './components/ChartBuilder';
-import { Field, TableRow } from './types';
+import { DatasetSwitcher } from './components/DatasetSwitcher';
+import { StorageStatusBanner } from './components/StorageStatusBanner';
+import { RestoreBackupDialog } from './components/RestoreBackupDialog';
+import { ReportBuilder } from './components/ReportBuilder';
+import { useDatasets } from './hooks/useDatasets';
+import { useHistory, HistoryEntry } from './hooks/useHistory';
+import { ChangeMeta, DatasetContent, Field, TableRow } from './types';
+import { buildFormulaPlan, isNumericField } from './utils/formula';
+import { RestoreMode, WorkspaceBackup, backupFileName, createBackup } from './utils/backup';
+import { downloadBlob } from './utils/exporter';
+import { filterRows } from './utils/filters';
+
+// Let inputs keep their native text undo instead of undoing dataset changes
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [fields, setFields] = useState<Field[]>([]);
-  const [data, setData] = useState<TableRow[]>([]);
   const [activeTab, setActiveTab] = useState<'fields' | 'table' | 'charts'>('fields');
+  const [showRestore, setShowRestore] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const {
+    datasets,
+    activeDataset,
+    isLoaded,
+    storageStatus,
+    dismissStorageError,
+    selectDataset,
+    addDataset,
+    updateDataset,
+    renameDataset,
+    duplicateDataset,
+    deleteDataset,
+    restoreWorkspace
+  } = useDatasets(isAuthenticated);
+  const history = useHistory();
 
-  // Check for existing authentication on mount
-  useEffect(() => {
-    const authStatus = localStorage.getItem('dynamicApp_authenticated');
-    if (authStatus === 'true') {
-      setIsAuthenticated(true);
-    }
-  }, []);
+  const applyHistoryEntry = (entry: HistoryEntry | null, direction: 'undo' | 'redo') => {
+    if (!entry) return;
+    selectDataset(entry.datasetId);
+    updateDataset(entry.datasetId, direction === 'undo' ? entry.before : entry.after);
+  };
+
+  const undo = () => applyHistoryEntry(history.undo(), 'undo');
+  const redo = () => applyHistoryEntry(history.redo(), 'redo');
 
-  // Load data from localStorage on mount (only when authenticated)
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo
   useEffect(() => {
     if (!isAuthenticated) return;
 
-    const savedFields = localStorage.getItem('dynamicApp_fields');
-    const savedData = localStorage.getItem('dynamicApp_data');
-    
-    if (savedFields) {
-      try {
-        setFields(JSON.parse(savedFields));
-      } catch (error) {
-        console.error('Error loading fields:', error);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
       }
-    }
-    
-    if (savedData) {
-      try {
-        setData(JSON.parse(savedData));
-      } catch (error) {
-        console.error('Error loading data:', error);
-      }
-    }
-  }, [isAuthenticated]);
+    };
 
-  // Save data to localStorage when fields or data change
-  useEffect(() => {
-    if (!isAuthenticated) return;
-    localStorage.setItem('dynamicApp_fields', JSON.stringify(fields));
-  }, [fields, isAuthenticated]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Formula values are derived from the stored rows, never saved themselves
+  const activeFields = activeDataset?.fields;
+  const activeData = activeDataset?.data;
+  const formulaPlan = useMemo(() => buildFormulaPlan(activeFields ?? []), [activeFields]);
+  const computedData = useMemo(() => formulaPlan.computeRows(activeData ?? []), [formulaPlan, activeData]);
+  const activeFilter = activeDataset?.filter;
+  // The table's filter, which charts can use as their data source too
+  const filteredData = useMemo(
+    () => filterRows(computedData, activeFields ?? [], formulaPlan, activeFilter),
+    [computedData, activeFields, formulaPlan, activeFilter]
+  );
 
+  // Check for existing authentication on mount
   useEffect(() => {
-    if (!isAuthenticated) return;
-    localStorage.setItem('dynamicApp_data', JSON.stringify(data));
-  }, [data, isAuthenticated]);
+    const authStatus = localStorage.getItem('dynamicApp_authenticated');
+    if (authStatus === 'true') {
+      setIsAuthenticated(true);
+    }
+  }, []);
 
   const handleLogin = (username: string, password: string) => {
     // Simple demo authentication - in production, this would be a real API call
@@ -74,10 +110,56 @@ function App() {
     return <LoginPage onLogin={handleLogin} />;
   }
 
+  if (!isLoaded || !activeDataset) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+        <div className="flex items-center gap-3 text-gray-600">
+          <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          Loading your datasets...
+        </div>
+      </div>
+    );
+  }
+
+  const { fields, data } = activeDataset;
+
+  // All schema and row edits go through here so they can be undone
+  const commitChange = (patch: Partial<DatasetContent>, meta: ChangeMeta) => {
+    const before: Partial<DatasetContent> = {
+      ...(patch.fields && { fields: activeDataset.fields }),
+      ...(patch.data && { data: activeDataset.data })
+    };
+    history.record(activeDataset.id, before, patch, meta);
+    updateDataset(activeDataset.id, patch);
+  };
+
+  const setFields = (nextFields: Field[], meta: ChangeMeta = { label: 'Edit fields' }) =>
+    commitChange({ fields: nextFields }, meta);
+  const setData = (nextData: TableRow[], meta: ChangeMeta = { label: 'Edit data' }) =>
+    commitChange({ data: nextData }, meta);
+  const importData = (importedFields: Field[], importedData: TableRow[]) =>
+    commitChange({ fields: importedFields, data: importedData }, { label: 'Import data' });
+
+  const handleDeleteDataset = (id: string) => {
+    deleteDataset(id);
+    history.forgetDataset(id);
+  };
+
+  const backUpWorkspace = () => {
+    const backup = createBackup(datasets, { activeDatasetId: activeDataset.id });
+    downloadBlob(new Blob([JSON.stringify(backup)], { type: 'application/json' }), backupFileName());
+  };
+
+  const handleRestore = (backup: WorkspaceBackup, mode: RestoreMode) => {
+    // Undo steps for replaced datasets would write stale content back
+    if (mode === 'replace') datasets.forEach(dataset => history.forgetDataset(dataset.id));
+    restoreWorkspace(backup, mode);
+  };
+
   const tabs = [
     { id: 'fields', label: 'Fields', icon: Database, count: fields.length },
     { id: 'table', label: 'Data', icon: TableIcon, count: data.length },
-    { id: 'charts', label: 'Charts', icon: BarChart3, count: fields.filter(f => f.type === 'number').length }
+    { id: 'charts', label: 'Charts', icon: BarChart3, count: fields.filter(f => isNumericField(f, formulaPlan)).length }
   ];
 
   return (
@@ -96,9 +178,52 @@ function App() {
                 </h1>
                 <p className="text-sm text-gray-600">Create, analyze, and visualize your data</p>
               </div>
+              <div className="ml-4">
+                <DatasetSwitcher
+                  datasets={datasets}
+                  activeDatasetId={activeDataset.id}
+                  storageUsage={storageStatus.usage}
+                  onSelect={selectDataset}
+                  onCreate={(name) => addDataset(name)}
+                  onRename={renameDataset}
+                  onDuplicate={duplicateDataset}
+                  onDelete={handleDeleteDataset}
+                  onBackup={backUpWorkspace}
+                  onRestore={() => setShowRestore(true)}
+                />
+              </div>
             </div>
             
             <div className="flex items-center gap-4">
+              {/* Undo / Redo */}
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={undo}
+                  disabled={!history.canUndo}
+                  title={history.canUndo ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!history.canRedo}
+                  title={history.canRedo ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <button
+                onClick={() => setShowReport(true)}
+                title="Build an HTML report of this dataset"
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-all duration-200"
+              >
+                <FileText className="w-4 h-4" />
+                Report
+              </button>
+
               {/* Tab Navigation */}
               <nav className="flex items-center gap-1 bg-gray-100 rounded-xl p-1">
                 {tabs.map((tab) => {
@@ -144,32 +269,80 @@ function App() {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="space-y-8">
+          <StorageStatusBanner status={storageStatus} onDismiss={dismissStorageError} />
+
           {activeTab === 'fields' && (
             <FieldBuilder 
+              key={activeDataset.id}
               fields={fields} 
               onFieldsChange={setFields}
-              onDataImport={(importedFields, importedData) => {
-                setFields(importedFields);
-                setData(importedData);
+              data={data}
+              onSchemaChange={(nextFields, nextData, meta) =>
+                commitChange({ fields: nextFields, data: nextData }, meta ?? { label: 'Edit fields' })
+              }
+              onDataImport={importData}
+              onImportAsDataset={(name, importedFields, importedData) => {
+                addDataset(name, importedFields, importedData);
               }}
             />
           )}
           
           {activeTab === 'table' && (
             <DataTable 
+              key={activeDataset.id}
               fields={fields} 
               data={data} 
+              computedData={computedData}
+              filteredData={filteredData}
+              filter={activeDataset.filter}
+              onFilterChange={(filter) => updateDataset(activeDataset.id, { filter })}
+              formulaPlan={formulaPlan}
               onDataChange={setData}
               onFieldsChange={setFields}
+              datasetName={activeDataset.name}
+              sort={activeDataset.sort}
+              onSortChange={(sort) => updateDataset(activeDataset.id, { sort })}
+              onDataImport={importData}
+              onImportAsDataset={(name, importedFields, importedData) => {
+                addDataset(name, importedFields, importedData);
+              }}
             />
           )}
           
           {activeTab === 'charts' && (
-            <ChartBuilder fields={fields} data={data} />
+            <ChartBuilder
+              key={activeDataset.id}
+              fields={fields}
+              data={computedData}
+              filteredData={filteredData}
+              formulaPlan={formulaPlan}
+              charts={activeDataset.charts}
+              onChartsChange={(charts) => updateDataset(activeDataset.id, { charts })}
+            />
           )}
         </div>
       </div>
 
+      {showReport && (
+        <ReportBuilder
+          datasetName={activeDataset.name}
+          fields={fields}
+          data={computedData}
+          filteredData={filteredData}
+          formulaPlan={formulaPlan}
+          charts={activeDataset.charts}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showRestore && (
+        <RestoreBackupDialog
+          currentDatasetCount={datasets.length}
+          onRestore={handleRestore}
+          onClose={() => setShowRestore(false)}
+        />
+      )}
+
       {/* Footer */}
       {/* <footer className="bg-white/60 backdrop-blur-sm border-t border-white/20 mt-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -1,21 +1,55 @@
-import React, { useState, useMemo } from 'react';
-import { BarChart, Bar, LineChart, Line, PieChart, Pie, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
-import { BarChart3, LineChart as LineChartIcon, PieChart as PieChartIcon, Activity, Palette } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { BarChart3, LineChart as LineChartIcon, PieChart as PieChartIcon, Activity, Palette, Plus, X, Image as ImageIcon } from 'lucide-react';
 import { Field, TableRow, ChartConfig } from '../types';
+import { createChart } from '../utils/datasets';
+import { FormulaPlan, isNumericField } from '../utils/formula';
+import { PNG_SCALES, exportChartPng, exportChartSvg } from '../utils/chartExport';
+import { chartLegend } from '../utils/charts';
+import { ChartView } from './ChartView';
 
 interface ChartBuilderProps {
   fields: Field[];
+  // Rows with formula values already computed
   data: TableRow[];
+  // The rows the table filter keeps, for charts set to use it
+  filteredData?: TableRow[];
+  formulaPlan: FormulaPlan;
+  charts: ChartConfig[];
+  onChartsChange: (charts: ChartConfig[]) => void;
 }
 
-export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data }) => {
-  const [chartConfig, setChartConfig] = useState<ChartConfig>({
-    type: 'bar',
-    yAxis: [],
-    title: 'My Chart'
-  });
+export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data, filteredData = data, formulaPlan, charts, onChartsChange }) => {
+  const [activeChartId, setActiveChartId] = useState<string | null>(charts[0]?.id ?? null);
+  const [pngScale, setPngScale] = useState(2);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
 
-  const numericFields = fields.filter(field => field.type === 'number');
+  // Datasets always carry at least one chart, but fall back to a blank one defensively
+  const chartConfig = charts.find(chart => chart.id === activeChartId) || charts[0] || createChart();
+
+  const setChartConfig = (config: ChartConfig) => {
+    onChartsChange(
+      charts.some(chart => chart.id === config.id)
+        ? charts.map(chart => chart.id === config.id ? config : chart)
+        : [...charts, config]
+    );
+  };
+
+  const addChart = () => {
+    const chart = createChart(`Chart ${charts.length + 1}`);
+    onChartsChange([...charts, chart]);
+    setActiveChartId(chart.id);
+  };
+
+  const removeChart = (id: string) => {
+    const remaining = charts.filter(chart => chart.id !== id);
+    onChartsChange(remaining.length > 0 ? remaining : [createChart()]);
+    if (chartConfig.id === id) {
+      setActiveChartId(remaining[0]?.id ?? null);
+    }
+  };
+
+  const numericFields = fields.filter(field => isNumericField(field, formulaPlan));
   const allFields = fields;
 
   const chartTypes = [
@@ -25,33 +59,25 @@ export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data }) => {
     { value: 'pie', label: 'Pie Chart', icon: PieChartIcon, color: 'from-orange-500 to-orange-600' }
   ];
 
-  const colors = [
-    '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', 
-    '#06B6D4', '#84CC16', '#F97316', '#EC4899', '#6366F1'
-  ];
+  const chartData = chartConfig.filtered ? filteredData : data;
+  const isFiltered = filteredData.length !== data.length;
 
-  const chartData = useMemo(() => {
-    if (data.length === 0) return [];
-    
-    return data.map((row, index) => {
-      const point: any = { index: index + 1 };
-      
-      // Add label field if specified
-      if (chartConfig.xAxis && row[chartConfig.xAxis]) {
-        point.label = row[chartConfig.xAxis];
-      } else {
-        point.label = `Row ${index + 1}`;
-      }
-      
-      // Add numeric data
-      chartConfig.yAxis.forEach(fieldName => {
-        const value = row[fieldName];
-        point[fieldName] = typeof value === 'number' ? value : 0;
-      });
-      
-      return point;
-    });
-  }, [data, chartConfig]);
+  const legendItems = chartLegend(chartConfig, fields, chartData);
+
+  // The chart's own SVG; legend icons are small SVGs too, so only take the top-level one
+  const renderedChart = () => chartRef.current?.querySelector<SVGSVGElement>('.recharts-wrapper > svg') ?? null;
+
+  const exportImage = async (format: 'svg' | 'png') => {
+    const svg = renderedChart();
+    if (!svg) return;
+    setExportError(null);
+    try {
+      if (format === 'svg') exportChartSvg(svg, chartConfig.title, legendItems);
+      else await exportChartPng(svg, chartConfig.title, legendItems, pngScale);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Could not export the chart');
+    }
+  };
 
   const renderChart = () => {
     if (chartConfig.yAxis.length === 0) {
@@ -66,178 +92,7 @@ export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data }) => {
       );
     }
 
-    const commonProps = {
-      data: chartData,
-      margin: { top: 20, right: 30, left: 20, bottom: 5 }
-    };
-
-    switch (chartConfig.type) {
-      case 'bar':
-        return (
-          <ResponsiveContainer width="100%" height={400}>
-            <BarChart {...commonProps}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-              <XAxis 
-                dataKey="label" 
-                stroke="#666"
-                fontSize={12}
-                tickLine={false}
-                axisLine={false}
-              />
-              <YAxis 
-                stroke="#666"
-                fontSize={12}
-                tickLine={false}
-                axisLine={false}
-              />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'white', 
-                  border: '1px solid #e5e7eb',
-                  borderRadius: '8px',
-                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                }}
-              />
-              <Legend />
-              {chartConfig.yAxis.map((fieldName, index) => (
-                <Bar 
-                  key={fieldName} 
-                  dataKey={fieldName} 
-                  fill={colors[index % colors.length]}
-                  radius={[4, 4, 0, 0]}
-                />
-              ))}
-            </BarChart>
-          </ResponsiveContainer>
-        );
-
-      case 'line':
-        return (
-          <ResponsiveContainer width="100%" height={400}>
-            <LineChart {...commonProps}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-              <XAxis 
-                dataKey="label" 
-                stroke="#666"
-                fontSize={12}
-                tickLine={false}
-                axisLine={false}
-              />
-              <YAxis 
-                stroke="#666"
-                fontSize={12}
-                tickLine={false}
-                axisLine={false}
-              />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'white', 
-                  border: '1px solid #e5e7eb',
-                  borderRadius: '8px',
-                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                }}
-              />
-              <Legend />
-              {chartConfig.yAxis.map((fieldName, index) => (
-                <Line 
-                  key={fieldName} 
-                  type="monotone" 
-                  dataKey={fieldName} 
-                  stroke={colors[index % colors.length]}
-                  strokeWidth={3}
-                  dot={{ fill: colors[index % colors.length], strokeWidth: 2, r: 4 }}
-                  activeDot={{ r: 6, stroke: colors[index % colors.length], strokeWidth: 2 }}
-                />
-              ))}
-            </LineChart>
-          </ResponsiveContainer>
-        );
-
-      case 'area':
-        return (
-          <ResponsiveContainer width="100%" height={400}>
-            <AreaChart {...commonProps}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-              <XAxis 
-                dataKey="label" 
-                stroke="#666"
-                fontSize={12}
-                tickLine={false}
-                axisLine={false}
-              />
-              <YAxis 
-                stroke="#666"
-                fontSize={12}
-                tickLine={false}
-                axisLine={false}
-              />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'white', 
-                  border: '1px solid #e5e7eb',
-                  borderRadius: '8px',
-                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                }}
-              />
-              <Legend />
-              {chartConfig.yAxis.map((fieldName, index) => (
-                <Area 
-                  key={fieldName} 
-                  type="monotone" 
-                  dataKey={fieldName} 
-                  stackId="1"
-                  stroke={colors[index % colors.length]}
-                  fill={colors[index % colors.length]}
-                  fillOpacity={0.6}
-                />
-              ))}
-            </AreaChart>
-          </ResponsiveContainer>
-        );
-
-      case 'pie':
-        const pieData = chartConfig.yAxis.length === 1 ? 
-          chartData.map(item => ({
-            name: item.label,
-            value: item[chartConfig.yAxis[0]]
-          })) : 
-          chartConfig.yAxis.map((fieldName, index) => ({
-            name: fieldName,
-            value: chartData.reduce((sum, item) => sum + (item[fieldName] || 0), 0)
-          }));
-
-        return (
-          <ResponsiveContainer width="100%" height={400}>
-            <PieChart>
-              <Pie
-                data={pieData}
-                cx="50%"
-                cy="50%"
-                labelLine={false}
-                label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                outerRadius={120}
-                fill="#8884d8"
-                dataKey="value"
-              >
-                {pieData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={colors[index % colors.length]} />
-                ))}
-              </Pie>
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'white', 
-                  border: '1px solid #e5e7eb',
-                  borderRadius: '8px',
-                  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                }}
-              />
-            </PieChart>
-          </ResponsiveContainer>
-        );
-
-      default:
-        return null;
-    }
+    return <ChartView config={chartConfig} fields={fields} data={chartData} />;
   };
 
   if (numericFields.length === 0) {
@@ -263,6 +118,39 @@ export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data }) => {
         Chart Builder
       </h2>
 
+      {/* Saved Charts */}
+      <div className="flex items-center gap-2 mb-6 overflow-x-auto pb-1">
+        {charts.map((chart) => (
+          <div
+            key={chart.id}
+            className={`group flex items-center gap-1 pl-3 pr-1 py-1.5 rounded-lg border text-sm font-medium transition-all duration-200 ${
+              chart.id === chartConfig.id
+                ? 'bg-purple-50 border-purple-300 text-purple-700'
+                : 'border-gray-200 text-gray-600 hover:border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <button onClick={() => setActiveChartId(chart.id)} className="whitespace-nowrap">
+              {chart.title || 'Untitled chart'}
+            </button>
+            {charts.length > 1 && (
+              <button
+                onClick={() => removeChart(chart.id)}
+                className="p-0.5 text-gray-400 hover:text-red-600 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={addChart}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-purple-600 hover:bg-purple-50 whitespace-nowrap transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New Chart
+        </button>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
         {/* Chart Type Selection */}
         <div>
@@ -298,7 +186,7 @@ export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data }) => {
           >
             <option value="">Row Index</option>
             {allFields.map(field => (
-              <option key={field.id} value={field.name}>{field.name}</option>
+              <option key={field.id} value={field.id}>{field.name}</option>
             ))}
           </select>
         </div>
@@ -314,14 +202,14 @@ export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data }) => {
                 <input
                   type={chartConfig.type === 'pie' ? 'radio' : 'checkbox'}
                   name={chartConfig.type === 'pie' ? 'yAxis' : undefined}
-                  checked={chartConfig.yAxis.includes(field.name)}
+                  checked={chartConfig.yAxis.includes(field.id)}
                   onChange={(e) => {
                     if (chartConfig.type === 'pie') {
-                      setChartConfig({ ...chartConfig, yAxis: e.target.checked ? [field.name] : [] });
+                      setChartConfig({ ...chartConfig, yAxis: e.target.checked ? [field.id] : [] });
                     } else {
                       const newYAxis = e.target.checked
-                        ? [...chartConfig.yAxis, field.name]
-                        : chartConfig.yAxis.filter(name => name !== field.name);
+                        ? [...chartConfig.yAxis, field.id]
+                        : chartConfig.yAxis.filter(id => id !== field.id);
                       setChartConfig({ ...chartConfig, yAxis: newYAxis });
                     }
                   }}
@@ -344,10 +232,53 @@ export const ChartBuilder: React.FC<ChartBuilderProps> = ({ fields, data }) => {
           placeholder="Enter chart title..."
           className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
         />
+        <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={Boolean(chartConfig.filtered)}
+            onChange={(e) => setChartConfig({ ...chartConfig, filtered: e.target.checked })}
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Only rows matching the table filter
+          <span className="text-gray-500">
+            ({isFiltered ? `${filteredData.length} of ${data.length} rows` : 'no filter set'})
+          </span>
+        </label>
       </div>
 
+      {/* Image Export */}
+      {chartConfig.yAxis.length > 0 && (
+        <div className="flex items-center justify-end gap-2 mb-3 text-sm">
+          {exportError && <span className="text-red-600 mr-auto">{exportError}</span>}
+          <ImageIcon className="w-4 h-4 text-gray-400" />
+          <button
+            onClick={() => exportImage('svg')}
+            className="px-3 py-1.5 rounded-lg font-medium text-purple-600 hover:bg-purple-50 transition-colors"
+          >
+            SVG
+          </button>
+          <div className="flex items-center rounded-lg border border-gray-200">
+            <button
+              onClick={() => exportImage('png')}
+              className="px-3 py-1.5 rounded-l-lg font-medium text-purple-600 hover:bg-purple-50 transition-colors"
+            >
+              PNG
+            </button>
+            <select
+              value={pngScale}
+              onChange={(e) => setPngScale(Number(e.target.value))}
+              className="py-1.5 pl-2 pr-7 border-0 border-l border-gray-200 rounded-r-lg text-gray-700 focus:ring-2 focus:ring-purple-500"
+            >
+              {PNG_SCALES.map(scale => (
+                <option key={scale} value={scale}>{scale}x</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
       {/* Chart Display */}
-      <div className="bg-gradient-to-br from-gray-50 to-white rounded-xl p-6 border border-gray-200">
+      <div ref={chartRef} className="bg-gradient-to-br from-gray-50 to-white rounded-xl p-6 border border-gray-200">
         {chartConfig.title && (
           <h3 className="text-xl font-bold text-center mb-6 text-gray-800">
             {chartConfig.title}
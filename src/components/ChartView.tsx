@@ -0,0 +1,190 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, LineChart, Line, PieChart, Pie, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
+import { ChartConfig, Field, TableRow } from '../types';
+import { buildChartPoints, buildPieSlices, chartColor, chartFieldName } from '../utils/charts';
+
+interface ChartViewProps {
+  config: ChartConfig;
+  fields: Field[];
+  // Rows with formula values already computed
+  data: TableRow[];
+  // Fixed size for rendering off screen; otherwise the chart fills its container's width
+  width?: number;
+  height?: number;
+  // Off when the chart is captured as an image, so it's drawn in full straight away
+  animate?: boolean;
+}
+
+export const ChartView: React.FC<ChartViewProps> = ({ config, fields, data, width, height = 400, animate = true }) => {
+  const points = useMemo(() => buildChartPoints(data, config), [data, config]);
+  const slices = useMemo(() => buildPieSlices(points, config, fields), [points, config, fields]);
+
+  const frame = (chart: React.ReactElement) =>
+    width ? React.cloneElement(chart, { width, height }) : (
+      <ResponsiveContainer width="100%" height={height}>
+        {chart}
+      </ResponsiveContainer>
+    );
+
+  const commonProps = {
+    data: points,
+    margin: { top: 20, right: 30, left: 20, bottom: 5 }
+  };
+
+  switch (config.type) {
+    case 'bar':
+      return frame(
+        <BarChart {...commonProps}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis 
+            dataKey="label" 
+            stroke="#666"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis 
+            stroke="#666"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+          />
+          <Tooltip 
+            contentStyle={{ 
+              backgroundColor: 'white', 
+              border: '1px solid #e5e7eb',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+            }}
+          />
+          <Legend />
+          {config.yAxis.map((fieldId, index) => (
+            <Bar 
+              key={fieldId} 
+              isAnimationActive={animate}
+              dataKey={fieldId} 
+              name={chartFieldName(fields, fieldId)}
+              fill={chartColor(index)}
+              radius={[4, 4, 0, 0]}
+            />
+          ))}
+        </BarChart>
+      );
+
+    case 'line':
+      return frame(
+        <LineChart {...commonProps}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis 
+            dataKey="label" 
+            stroke="#666"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis 
+            stroke="#666"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+          />
+          <Tooltip 
+            contentStyle={{ 
+              backgroundColor: 'white', 
+              border: '1px solid #e5e7eb',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+            }}
+          />
+          <Legend />
+          {config.yAxis.map((fieldId, index) => (
+            <Line 
+              key={fieldId} 
+              isAnimationActive={animate}
+              type="monotone" 
+              dataKey={fieldId} 
+              name={chartFieldName(fields, fieldId)}
+              stroke={chartColor(index)}
+              strokeWidth={3}
+              dot={{ fill: chartColor(index), strokeWidth: 2, r: 4 }}
+              activeDot={{ r: 6, stroke: chartColor(index), strokeWidth: 2 }}
+            />
+          ))}
+        </LineChart>
+      );
+
+    case 'area':
+      return frame(
+        <AreaChart {...commonProps}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis 
+            dataKey="label" 
+            stroke="#666"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis 
+            stroke="#666"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+          />
+          <Tooltip 
+            contentStyle={{ 
+              backgroundColor: 'white', 
+              border: '1px solid #e5e7eb',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+            }}
+          />
+          <Legend />
+          {config.yAxis.map((fieldId, index) => (
+            <Area 
+              key={fieldId} 
+              isAnimationActive={animate}
+              type="monotone" 
+              dataKey={fieldId} 
+              name={chartFieldName(fields, fieldId)}
+              stackId="1"
+              stroke={chartColor(index)}
+              fill={chartColor(index)}
+              fillOpacity={0.6}
+            />
+          ))}
+        </AreaChart>
+      );
+
+    case 'pie':
+      return frame(
+        <PieChart>
+          <Pie
+            data={slices}
+            isAnimationActive={animate}
+            cx="50%"
+            cy="50%"
+            labelLine={false}
+            label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+            outerRadius={120}
+            fill="#8884d8"
+            dataKey="value"
+          >
+            {slices.map((_, index) => (
+              <Cell key={`cell-${index}`} fill={chartColor(index)} />
+            ))}
+          </Pie>
+          <Tooltip 
+            contentStyle={{ 
+              backgroundColor: 'white', 
+              border: '1px solid #e5e7eb',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+            }}
+          />
+        </PieChart>
+      );
+
+    default:
+      return null;
+  }
+};
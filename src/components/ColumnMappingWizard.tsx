@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Plus, RefreshCw, Replace } from 'lucide-react';
+import { Field, TableRow } from '../types';
+import { formatCellValue, getTypeLabel } from '../utils/fieldTypes';
+import { ColumnMapping, ImportMode, MergeOptions, NEW_FIELD, SKIP_COLUMN, autoMapColumns, mergeImport } from '../utils/importMapping';
+import { FAILURE_POLICIES, FailurePolicy } from '../utils/importer';
+import { ImportIssuesReport } from './ImportIssuesReport';
+
+interface ColumnMappingWizardProps {
+  // Used for the error report's file name
+  name: string;
+  imported: MergeOptions['imported'];
+  existingFields: Field[];
+  existingData: TableRow[];
+  onBack: () => void;
+  onConfirm: (fields: Field[], data: TableRow[]) => void;
+}
+
+const MODES: { value: ImportMode; label: string; description: string; icon: typeof Plus }[] = [
+  { value: 'append', label: 'Append rows', description: 'Add imported rows after the existing ones', icon: Plus },
+  { value: 'upsert', label: 'Update matching rows', description: 'Update rows with the same key, add the rest', icon: RefreshCw },
+  { value: 'replace', label: 'Replace rows', description: 'Keep the fields, swap out every row', icon: Replace }
+];
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  name,
+  imported,
+  existingFields,
+  existingData,
+  onBack,
+  onConfirm
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => autoMapColumns(imported.fields, existingFields));
+  const [mode, setMode] = useState<ImportMode>('append');
+  const [keyFieldId, setKeyFieldId] = useState<string>('');
+  const [policies, setPolicies] = useState<Record<string, FailurePolicy>>({});
+
+  const mappableFields = existingFields.filter(field => field.type !== 'formula');
+  const mappedTargets = Object.values(mapping);
+  // Only fields that receive imported values can identify a record
+  const keyCandidates = mappableFields.filter(field => mappedTargets.includes(field.id));
+  const effectiveKey = keyCandidates.some(field => field.id === keyFieldId) ? keyFieldId : keyCandidates[0]?.id;
+  const canImport = mode !== 'upsert' || Boolean(effectiveKey);
+
+  const result = useMemo(
+    () => canImport
+      ? mergeImport({ imported, existingFields, existingData, mapping, mode, keyFieldId: effectiveKey, policies })
+      : null,
+    [imported, existingFields, existingData, mapping, mode, effectiveKey, canImport, policies]
+  );
+
+  const issueCounts = new Map<string, number>();
+  result?.issues.forEach(issue => issueCounts.set(issue.column, (issueCounts.get(issue.column) ?? 0) + 1));
+
+  const sampleFor = (field: Field) => {
+    const row = imported.data.find(r => r[field.id] !== '' && r[field.id] !== null && r[field.id] !== undefined);
+    return row ? formatCellValue(row[field.id], field) : '';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Map columns to fields</h3>
+        <p className="text-sm text-gray-600">
+          Columns were matched by name. Change any mapping, skip columns you don't need, or add them as new fields.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border border-gray-200 rounded-lg">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-sm font-medium text-gray-900 border-b border-gray-200">Spreadsheet column</th>
+              <th className="px-3 py-2 border-b border-gray-200"></th>
+              <th className="px-3 py-2 text-left text-sm font-medium text-gray-900 border-b border-gray-200">Import into</th>
+            </tr>
+          </thead>
+          <tbody>
+            {imported.fields.map(field => (
+              <tr key={field.id} className={mapping[field.id] === SKIP_COLUMN ? 'opacity-50' : ''}>
+                <td className="px-3 py-2 border-b border-gray-200">
+                  <div className="font-medium text-gray-900">{field.name}</div>
+                  <div className="text-xs text-gray-500 truncate max-w-xs">
+                    {getTypeLabel(field.type)}
+                    {sampleFor(field) && <> · e.g. {sampleFor(field)}</>}
+                  </div>
+                </td>
+                <td className="px-3 py-2 border-b border-gray-200">
+                  <ArrowRight className="w-4 h-4 text-gray-400" />
+                </td>
+                <td className="px-3 py-2 border-b border-gray-200">
+                  <select
+                    value={mapping[field.id]}
+                    onChange={(e) => setMapping({ ...mapping, [field.id]: e.target.value })}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value={NEW_FIELD}>Add as new field</option>
+                    <option value={SKIP_COLUMN}>Skip this column</option>
+                    <optgroup label="Existing fields">
+                      {mappableFields.map(existing => (
+                        <option
+                          key={existing.id}
+                          value={existing.id}
+                          // Each field can only receive one column
+                          disabled={mapping[field.id] !== existing.id && mappedTargets.includes(existing.id)}
+                        >
+                          {existing.name} ({getTypeLabel(existing.type)})
+                        </option>
+                      ))}
+                    </optgroup>
+                  </select>
+                  {(issueCounts.has(field.name) || policies[field.id]) && (
+                    <label className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                      {issueCounts.get(field.name) ?? 0} values don't fit:
+                      <select
+                        value={policies[field.id] ?? 'empty'}
+                        onChange={(e) => setPolicies({ ...policies, [field.id]: e.target.value as FailurePolicy })}
+                        className="px-2 py-0.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {FAILURE_POLICIES.map(policy => (
+                          <option key={policy.value} value={policy.value}>{policy.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {MODES.map(option => {
+          const Icon = option.icon;
+          return (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              className={`flex items-start gap-3 p-3 rounded-xl border text-left transition-colors ${
+                mode === option.value ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <Icon className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-medium text-gray-900">{option.label}</p>
+                <p className="text-sm text-gray-600">{option.description}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {mode === 'upsert' && (
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          Match rows on
+          <select
+            value={effectiveKey ?? ''}
+            onChange={(e) => setKeyFieldId(e.target.value)}
+            disabled={keyCandidates.length === 0}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {keyCandidates.length === 0 && <option value="">Map a column to an existing field first</option>}
+            {keyCandidates.map(field => (
+              <option key={field.id} value={field.id}>{field.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {result && <ImportIssuesReport name={name} issues={result.issues} skippedRows={result.skippedRows} />}
+
+      {result && (
+        <p className="text-sm text-gray-600">
+          {mode === 'replace' && `${existingData.length} existing rows will be replaced by ${result.added} imported rows.`}
+          {mode === 'append' && `${result.added} rows will be added after the ${existingData.length} existing rows.`}
+          {mode === 'upsert' && `${result.updated} rows will be updated and ${result.added} added.`}
+          {result.fields.length > existingFields.length && ` ${result.fields.length - existingFields.length} new fields will be created.`}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+        >
+          ← Back to Preview
+        </button>
+        <button
+          onClick={() => result && onConfirm(result.fields, result.data)}
+          disabled={!result}
+          className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,67 +1,225 @@
-import React, { useState } from 'react';
-import { Plus, Edit3, Trash2, Check, X, Save, Upload } from 'lucide-react';
-import { Field, TableRow } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Edit3, Trash2, Check, X, Save, Upload, Star, ExternalLink, Sigma, AlertTriangle, ChevronDown, ChevronRight, Copy, Download, ArrowUp, ArrowDown, Filter, FilterX, ListFilter } from 'lucide-react';
+import { ChangeMeta, Field, FilterCondition, SortKey, TableFilter, TableRow } from '../types';
 import { ExcelUploader } from './ExcelUploader';
+import { DuplicateFinder } from './DuplicateFinder';
+import { ExportDialog } from './ExportDialog';
+import { FilterBuilder } from './FilterBuilder';
+import { FilterConditionEditor } from './FilterConditionEditor';
+import { RATING_MAX, formatCellValue, getDefaultValue } from '../utils/fieldTypes';
+import { emptyValueFor } from '../utils/convert';
+import { validateNewRow, validateRows } from '../utils/validation';
+import { moveItem, useDragReorder } from '../hooks/useDragReorder';
+import { useCellSelection } from '../hooks/useCellSelection';
+import { copyRange, parseClipboardTable, pasteIntoRows } from '../utils/clipboard';
+import { sortRows, toggleSort } from '../utils/sorting';
+import { generateId } from '../utils/id';
+import { FILTER_OPERATORS, countActiveConditions, filterKind, isConditionActive } from '../utils/filters';
+import { FormulaPlan, formulaForDisplay } from '../utils/formula';
 
 interface DataTableProps {
   fields: Field[];
   data: TableRow[];
-  onDataChange: (data: TableRow[]) => void;
-  onFieldsChange: (fields: Field[]) => void;
+  // Rows with formula values filled in, for display; edits always go to `data`
+  computedData?: TableRow[];
+  // The computed rows `filter` keeps
+  filteredData?: TableRow[];
+  filter?: TableFilter;
+  // Enables the column filters and the query builder
+  onFilterChange?: (filter: TableFilter) => void;
+  // Result types of formula columns, so they get the right filters
+  formulaPlan?: FormulaPlan;
+  onDataChange: (data: TableRow[], meta?: ChangeMeta) => void;
+  // Enables reordering columns by dragging their headers
+  onFieldsChange?: (fields: Field[], meta?: ChangeMeta) => void;
+  onDataImport: (fields: Field[], data: TableRow[]) => void;
+  onImportAsDataset?: (name: string, fields: Field[], data: TableRow[]) => void;
+  // Default file name for exports
+  datasetName?: string;
+  sort?: SortKey[];
+  // Enables sorting by clicking column headers
+  onSortChange?: (sort: SortKey[]) => void;
 }
 
-export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange, onFieldsChange }) => {
+// A cleared or half-typed number ("-", "1e") stays empty, so required and range rules can report it
+const parseNumberInput = (text: string) => {
+  const parsed = parseFloat(text);
+  return text !== '' && Number.isFinite(parsed) ? parsed : emptyValueFor('number');
+};
+
+// Shared default, so an unsorted table doesn't re-sort on every render
+const NO_SORT: SortKey[] = [];
+
+export const DataTable: React.FC<DataTableProps> = ({ fields, data, computedData = data, filteredData = computedData, filter, onFilterChange, formulaPlan, onDataChange, onFieldsChange, onDataImport, onImportAsDataset, datasetName = 'data', sort = NO_SORT, onSortChange }) => {
   const [editingRowId, setEditingRowId] = useState<string | null>(null);
   const [isAddingRow, setIsAddingRow] = useState(false);
   const [newRow, setNewRow] = useState<Record<string, any>>({});
   const [showExcelUploader, setShowExcelUploader] = useState(false);
+  const [showDuplicateFinder, setShowDuplicateFinder] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [newRowErrors, setNewRowErrors] = useState<Record<string, string>>({});
+  const [showIssues, setShowIssues] = useState(false);
+  const [clipboardNotice, setClipboardNotice] = useState<string | null>(null);
+  const [showColumnFilters, setShowColumnFilters] = useState(() => filter?.columns.some(isConditionActive) ?? false);
+  const [showFilterBuilder, setShowFilterBuilder] = useState(false);
 
-  const handleExcelImport = (importedFields: Field[], importedData: TableRow[]) => {
-    onFieldsChange(importedFields);
-    onDataChange(importedData);
+  // Rows in the order and selection shown, which exports can be limited to
+  const viewRows = useMemo(() => sortRows(filteredData, fields, sort), [filteredData, fields, sort]);
+  const activeFilterCount = countActiveConditions(filter);
+  const columnFilters = filter?.columns ?? [];
+
+  const setColumnFilter = (fieldId: string, condition: FilterCondition | null) => {
+    const columns = columnFilters.filter(c => c.fieldId !== fieldId);
+    onFilterChange?.({ ...filter, columns: condition ? [...columns, condition] : columns });
   };
 
+  const selection = useCellSelection(viewRows.length, fields.length);
+
+  useEffect(() => {
+    if (!clipboardNotice) return;
+    const timer = setTimeout(() => setClipboardNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [clipboardNotice]);
+
+  // Runs over every row, so problems in imported data show up too
+  const validation = useMemo(() => validateRows(computedData, fields), [computedData, fields]);
+  const invalidRowCount = validation.byRow.size;
+
+  // Issues are numbered and ordered by where their row sits in the sorted, filtered view
+  const issueList = useMemo(() => {
+    const positions = new Map(viewRows.map((row, index) => [row.id, index]));
+    // Rows hidden by filters go last, in stored order
+    const position = (rowId: string) => positions.get(rowId) ?? viewRows.length;
+    return validation.issues
+      .map(issue => ({ ...issue, viewIndex: positions.get(issue.rowId) }))
+      .sort((a, b) => position(a.rowId) - position(b.rowId));
+  }, [validation, viewRows]);
+
   const addRow = () => {
     const row: TableRow = {
-      id: Date.now().toString(),
-      ...fields.reduce((acc, field) => ({
+      id: generateId('row'),
+      ...fields.filter(field => field.type !== 'formula').reduce((acc, field) => ({
         ...acc,
-        [field.name]: newRow[field.name] || getDefaultValue(field.type)
+        // Required fields left blank stay blank so validation can catch them
+        [field.id]: newRow[field.id] ?? (field.required ? emptyValueFor(field.type) : getDefaultValue(field.type))
       }), {})
     };
-    onDataChange([...data, row]);
+    const errors = validateNewRow(row, fields, data);
+    if (Object.keys(errors).length > 0) {
+      setNewRowErrors(errors);
+      return;
+    }
+    onDataChange([...data, row], { label: 'Add row' });
     setNewRow({});
+    setNewRowErrors({});
     setIsAddingRow(false);
   };
 
   const updateRow = (rowId: string, updatedData: Record<string, any>) => {
     onDataChange(data.map(row => 
       row.id === rowId ? { ...row, ...updatedData } : row
-    ));
-    setEditingRowId(null);
+    ), { label: 'Edit row', coalesceKey: `row:${rowId}:${Object.keys(updatedData).join(',')}` });
   };
 
+  const columnDrag = useDragReorder(
+    fields.map(field => field.id),
+    (from, to) => onFieldsChange?.(moveItem(fields, from, to), { label: 'Reorder fields' }),
+    'horizontal'
+  );
+
   const deleteRow = (rowId: string) => {
-    onDataChange(data.filter(row => row.id !== rowId));
+    onDataChange(data.filter(row => row.id !== rowId), { label: 'Delete row' });
   };
 
-  const getDefaultValue = (type: Field['type']) => {
-    switch (type) {
-      case 'number': return 0;
-      case 'boolean': return false;
-      case 'date': return '';
-      default: return '';
+  // Inputs in a row being edited keep the browser's own copy and paste
+  const isTextTarget = (target: EventTarget) => (target as HTMLElement).closest('input, textarea, select') !== null;
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (isTextTarget(e.target) || !selection.range) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', copyRange(viewRows, fields, selection.range));
+    const { top, bottom, left, right } = selection.range;
+    const count = (bottom - top + 1) * (right - left + 1);
+    setClipboardNotice(`Copied ${count} ${count === 1 ? 'cell' : 'cells'}`);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (isTextTarget(e.target)) return;
+    // An empty table takes the paste from its first cell
+    const origin = selection.origin ?? (data.length === 0 ? { row: 0, col: 0 } : null);
+    const block = parseClipboardTable(e.clipboardData.getData('text/plain'));
+    if (!origin || block.length === 0) return;
+    e.preventDefault();
+
+    // Selection positions follow the sorted view; write back to the stored order
+    const rowById = new Map(data.map(row => [row.id, row]));
+    const ordered = viewRows.map(row => rowById.get(row.id) ?? row);
+    const result = pasteIntoRows(ordered, fields, block, origin, selection.range ?? undefined);
+    if (result.changed > 0 || result.added > 0) {
+      const pastedById = new Map(result.data.map(row => [row.id, row]));
+      onDataChange([
+        ...data.map(row => pastedById.get(row.id) ?? row),
+        ...result.data.slice(ordered.length)
+      ], { label: 'Paste cells' });
     }
+    setClipboardNotice([
+      `Pasted ${result.changed} ${result.changed === 1 ? 'value' : 'values'}`,
+      result.added > 0 && `added ${result.added} ${result.added === 1 ? 'row' : 'rows'}`,
+      result.rejected > 0 && `${result.rejected} didn't fit their column and were skipped`
+    ].filter(Boolean).join(', '));
   };
 
-  const formatCellValue = (value: any, type: Field['type']) => {
-    if (value === null || value === undefined) return '';
-    
-    switch (type) {
-      case 'boolean': return value ? 'Yes' : 'No';
-      case 'date': return value ? new Date(value).toLocaleDateString() : '';
-      case 'number': return typeof value === 'number' ? value.toLocaleString() : value;
-      default: return value.toString();
+  const renderSortIndicator = (fieldId: string) => {
+    const index = sort.findIndex(key => key.fieldId === fieldId);
+    if (index === -1) return null;
+    const Icon = sort[index].direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <span className="flex items-center text-blue-600">
+        <Icon className="w-3.5 h-3.5" />
+        {sort.length > 1 && <span className="text-xs">{index + 1}</span>}
+      </span>
+    );
+  };
+
+  const renderCellValue = (field: Field, value: any) => {
+    switch (field.type) {
+      case 'select':
+        return value ? (
+          <span className="text-xs px-2 py-1 bg-indigo-100 text-indigo-700 rounded-full">{value}</span>
+        ) : null;
+      case 'multiselect':
+        return (
+          <div className="flex flex-wrap gap-1">
+            {(Array.isArray(value) ? value : []).map((option: string) => (
+              <span key={option} className="text-xs px-2 py-1 bg-indigo-100 text-indigo-700 rounded-full">{option}</span>
+            ))}
+          </div>
+        );
+      case 'url':
+        return value ? (
+          <a
+            href={value}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 hover:underline truncate max-w-xs"
+          >
+            {value.replace(/^https?:\/\//, '')}
+            <ExternalLink className="w-3 h-3 flex-shrink-0" />
+          </a>
+        ) : null;
+      case 'rating':
+        return (
+          <div className="flex items-center gap-0.5">
+            {Array.from({ length: RATING_MAX }, (_, i) => (
+              <Star
+                key={i}
+                className={`w-4 h-4 ${i < (Number(value) || 0) ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}`}
+              />
+            ))}
+          </div>
+        );
+      default:
+        return formatCellValue(value, field);
     }
   };
 
@@ -82,8 +240,8 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
         return (
           <input
             type="number"
-            value={value || ''}
-            onChange={(e) => onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+            value={value ?? ''}
+            onChange={(e) => onChange(parseNumberInput(e.target.value))}
             className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
         );
@@ -96,6 +254,96 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
             className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
         );
+      case 'datetime':
+        return (
+          <input
+            // Stored as wall-clock time in the field's zone, which is what datetime-local edits
+            type="datetime-local"
+            value={value || ''}
+            onChange={(e) => onChange(e.target.value)}
+            title={field.timeZone}
+            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        );
+      case 'currency':
+      case 'percent':
+        return (
+          <div className="flex items-center border border-gray-300 rounded focus-within:ring-2 focus-within:ring-blue-500">
+            {field.type === 'currency' && (
+              <span className="pl-2 text-sm text-gray-500">{field.currency || 'USD'}</span>
+            )}
+            <input
+              type="number"
+              step="any"
+              value={value ?? ''}
+              onChange={(e) => onChange(parseNumberInput(e.target.value))}
+              className="w-full px-2 py-1 rounded focus:outline-none"
+            />
+            {field.type === 'percent' && <span className="pr-2 text-sm text-gray-500">%</span>}
+          </div>
+        );
+      case 'select':
+        return (
+          <select
+            value={value || ''}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">—</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'multiselect': {
+        const selected: string[] = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-1">
+            {(field.options || []).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(
+                  selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]
+                )}
+                className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                  selected.includes(option)
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'border-gray-300 text-gray-600 hover:border-indigo-400'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        );
+      }
+      case 'rating':
+        return (
+          <div className="flex items-center gap-0.5">
+            {Array.from({ length: RATING_MAX }, (_, i) => (
+              <button
+                key={i}
+                type="button"
+                // Clicking the current rating again clears it
+                onClick={() => onChange(value === i + 1 ? 0 : i + 1)}
+                className="p-0.5"
+              >
+                <Star className={`w-4 h-4 ${i < (Number(value) || 0) ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300 hover:text-yellow-300'}`} />
+              </button>
+            ))}
+          </div>
+        );
+      case 'url':
+        return (
+          <input
+            type="url"
+            placeholder="https://"
+            value={value || ''}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        );
       case 'email':
         return (
           <input
@@ -135,7 +383,11 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
   }
 
   return (
-    <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
+    <div
+      className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6"
+      onCopy={handleCopy}
+      onPaste={handlePaste}
+    >
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold bg-gradient-to-r from-green-600 to-blue-600 bg-clip-text text-transparent">
           Data Table
@@ -148,6 +400,46 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
             <Upload className="w-4 h-4" />
             Import Excel
           </button>
+          {data.length > 1 && (
+            <button
+              onClick={() => setShowDuplicateFinder(true)}
+              className="inline-flex items-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 font-medium py-2 px-4 rounded-xl transition-all duration-200 shadow-sm"
+            >
+              <Copy className="w-4 h-4" />
+              Find Duplicates
+            </button>
+          )}
+          {onFilterChange && data.length > 0 && (
+            <>
+              <button
+                onClick={() => setShowColumnFilters(!showColumnFilters)}
+                className={`inline-flex items-center gap-2 border font-medium py-2 px-4 rounded-xl transition-all duration-200 shadow-sm ${
+                  showColumnFilters ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-gray-200 hover:bg-gray-50 text-gray-700'
+                }`}
+              >
+                <Filter className="w-4 h-4" />
+                Filters
+              </button>
+              <button
+                onClick={() => setShowFilterBuilder(true)}
+                className={`inline-flex items-center gap-2 border font-medium py-2 px-4 rounded-xl transition-all duration-200 shadow-sm ${
+                  filter?.query ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-gray-200 hover:bg-gray-50 text-gray-700'
+                }`}
+              >
+                <ListFilter className="w-4 h-4" />
+                Query
+              </button>
+            </>
+          )}
+          {data.length > 0 && (
+            <button
+              onClick={() => setShowExport(true)}
+              className="inline-flex items-center gap-2 bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 font-medium py-2 px-4 rounded-xl transition-all duration-200 shadow-sm"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+          )}
           <button
             onClick={() => setIsAddingRow(true)}
             className="inline-flex items-center gap-2 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white font-medium py-2 px-4 rounded-xl transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-xl"
@@ -158,17 +450,88 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
         </div>
       </div>
 
-      <div className="overflow-x-auto">
+      {invalidRowCount > 0 && (
+        <div className="mb-4 bg-amber-50 border border-amber-200 rounded-xl p-3">
+          <button
+            onClick={() => setShowIssues(!showIssues)}
+            className="w-full flex items-center gap-2 text-sm font-medium text-amber-800"
+          >
+            {showIssues ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            <AlertTriangle className="w-4 h-4" />
+            {invalidRowCount} of {data.length} rows fail validation ({validation.issues.length} {validation.issues.length === 1 ? 'issue' : 'issues'})
+          </button>
+          {showIssues && (
+            <ul className="mt-2 max-h-48 overflow-y-auto space-y-1">
+              {issueList.slice(0, 200).map(issue => (
+                <li key={`${issue.rowId}:${issue.fieldId}`}>
+                  <button
+                    onClick={() => setEditingRowId(issue.rowId)}
+                    className="text-left text-sm text-amber-900 hover:underline"
+                  >
+                    {issue.viewIndex === undefined ? 'Row hidden by filters' : `Row ${issue.viewIndex + 1}`} · {fields.find(f => f.id === issue.fieldId)?.name}: {issue.message}
+                  </button>
+                </li>
+              ))}
+              {validation.issues.length > 200 && (
+                <li className="text-xs text-amber-700">…and {validation.issues.length - 200} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {activeFilterCount > 0 && (
+        <div className="mb-4 flex items-center gap-3 text-sm text-gray-600">
+          <span>
+            Showing <span className="font-semibold text-gray-900">{filteredData.length}</span> of {computedData.length} rows
+            {' '}({activeFilterCount} {activeFilterCount === 1 ? 'filter' : 'filters'})
+          </span>
+          {onFilterChange && (
+            <button
+              onClick={() => onFilterChange({ columns: [] })}
+              className="inline-flex items-center gap-1 font-medium text-blue-600 hover:text-blue-700 transition-colors"
+            >
+              <FilterX className="w-4 h-4" />
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
+      {clipboardNotice && (
+        <p className="mb-4 text-sm text-gray-600">{clipboardNotice}</p>
+      )}
+
+      <div className="overflow-x-auto" ref={selection.containerRef}>
         <table className="w-full border-collapse">
           <thead>
             <tr className="bg-gradient-to-r from-gray-50 to-gray-100">
               {fields.map((field) => (
                 <th
                   key={field.id}
-                  className="px-4 py-3 text-left font-semibold text-gray-900 border-b-2 border-gray-200 first:rounded-tl-xl last:rounded-tr-xl"
+                  {...columnDrag.getItemProps(field.id, Boolean(onFieldsChange))}
+                  className={`px-4 py-3 text-left font-semibold text-gray-900 border-b-2 border-gray-200 first:rounded-tl-xl last:rounded-tr-xl ${
+                    onFieldsChange ? 'cursor-grab' : ''
+                  } ${columnDrag.draggingId === field.id ? 'opacity-50' : ''} ${
+                    columnDrag.dropSideFor(field.id) === 'before' ? 'shadow-[inset_2px_0_0_#3B82F6]' : ''
+                  } ${columnDrag.dropSideFor(field.id) === 'after' ? 'shadow-[inset_-2px_0_0_#3B82F6]' : ''}`}
                 >
                   <div className="flex items-center gap-2">
-                    {field.name}
+                    {onSortChange ? (
+                      <button
+                        onClick={(e) => onSortChange(toggleSort(sort, field.id, e.shiftKey))}
+                        title="Sort by this column (Shift+click to add to the sort)"
+                        className="flex items-center gap-1 hover:text-blue-600 transition-colors"
+                      >
+                        {field.name}
+                        {renderSortIndicator(field.id)}
+                      </button>
+                    ) : field.name}
+                    {field.type === 'formula' && (
+                      <span title={formulaForDisplay(field.formula || '', fields)}>
+                        <Sigma className="w-3.5 h-3.5 text-gray-400" />
+                      </span>
+                    )}
                     {field.required && (
                       <span className="text-red-500 text-sm">*</span>
                     )}
@@ -179,34 +542,73 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
                 Actions
               </th>
             </tr>
+            {onFilterChange && showColumnFilters && (
+              <tr className="bg-gray-50">
+                {fields.map(field => {
+                  const kind = filterKind(field, formulaPlan);
+                  const existing = columnFilters.find(c => c.fieldId === field.id);
+                  return (
+                    <th key={field.id} className="px-4 py-2 align-top border-b border-gray-200">
+                      <FilterConditionEditor
+                        compact
+                        kind={kind}
+                        condition={existing ?? { id: `column_${field.id}`, fieldId: field.id, operator: FILTER_OPERATORS[kind][0].value }}
+                        // Yes/no filters narrow rows as soon as they're set, so they start at Any
+                        cleared={!existing && kind === 'boolean'}
+                        onChange={(condition) => setColumnFilter(field.id, condition)}
+                        onClear={() => setColumnFilter(field.id, null)}
+                      />
+                    </th>
+                  );
+                })}
+                <th className="border-b border-gray-200" />
+              </tr>
+            )}
           </thead>
           <tbody>
-            {data.map((row, rowIndex) => (
+            {viewRows.map((row, rowIndex) => (
               <tr
                 key={row.id}
                 className={`hover:bg-gray-50 transition-colors ${
                   rowIndex % 2 === 0 ? 'bg-white' : 'bg-gray-25'
                 }`}
               >
-                {fields.map((field) => (
-                  <td key={field.id} className="px-4 py-3 border-b border-gray-200">
-                    {editingRowId === row.id ? (
-                      renderCellInput(field, row[field.name], (value) => {
-                        updateRow(row.id, { [field.name]: value });
-                      })
-                    ) : (
-                      <div className="min-h-[1.5rem] flex items-center">
-                        {formatCellValue(row[field.name], field.type)}
-                      </div>
-                    )}
-                  </td>
-                ))}
+                {fields.map((field, colIndex) => {
+                  const issue = validation.byRow.get(row.id)?.[field.id];
+                  const isEditing = editingRowId === row.id;
+                  const isSelected = !isEditing && selection.isSelected(rowIndex, colIndex);
+                  return (
+                    <td
+                      key={field.id}
+                      title={issue}
+                      {...(!isEditing && selection.getCellProps(rowIndex, colIndex))}
+                      className={`px-4 py-3 border-b border-gray-200 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 ${
+                        isSelected ? 'bg-blue-50' : issue ? 'bg-red-50' : ''
+                      } ${issue ? 'ring-1 ring-inset ring-red-300' : ''}`}
+                    >
+                      {isEditing && field.type !== 'formula' ? (
+                        <>
+                          {renderCellInput(field, row[field.id], (value) => {
+                            updateRow(row.id, { [field.id]: value });
+                          })}
+                          {issue && <p className="mt-1 text-xs text-red-600">{issue}</p>}
+                        </>
+                      ) : (
+                        <div className="min-h-[1.5rem] flex items-center">
+                          {renderCellValue(field, row[field.id])}
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
                 <td className="px-4 py-3 border-b border-gray-200">
                   <div className="flex items-center justify-end gap-2">
                     {editingRowId === row.id ? (
                       <button
                         onClick={() => setEditingRowId(null)}
-                        className="p-1 text-green-600 hover:bg-green-50 rounded transition-colors"
+                        disabled={validation.byRow.has(row.id)}
+                        title={validation.byRow.has(row.id) ? 'Fix the highlighted cells first' : undefined}
+                        className="p-1 text-green-600 hover:bg-green-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                       >
                         <Check className="w-4 h-4" />
                       </button>
@@ -232,9 +634,12 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
               <tr className="bg-gradient-to-r from-green-50 to-blue-50 animate-in slide-in-from-top-2 duration-200">
                 {fields.map((field) => (
                   <td key={field.id} className="px-4 py-3 border-b-2 border-dashed border-green-300">
-                    {renderCellInput(field, newRow[field.name], (value) => {
-                      setNewRow({ ...newRow, [field.name]: value });
+                    {field.type === 'formula' ? (
+                      <span className="text-sm italic text-gray-400">Computed</span>
+                    ) : renderCellInput(field, newRow[field.id], (value) => {
+                      setNewRow({ ...newRow, [field.id]: value });
                     })}
+                    {newRowErrors[field.id] && <p className="mt-1 text-xs text-red-600">{newRowErrors[field.id]}</p>}
                   </td>
                 ))}
                 <td className="px-4 py-3 border-b-2 border-dashed border-green-300">
@@ -249,6 +654,7 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
                       onClick={() => {
                         setIsAddingRow(false);
                         setNewRow({});
+                        setNewRowErrors({});
                       }}
                       className="p-1 text-gray-600 hover:bg-gray-100 rounded transition-colors"
                     >
@@ -262,23 +668,60 @@ export const DataTable: React.FC<DataTableProps> = ({ fields, data, onDataChange
         </table>
       </div>
 
+      {data.length > 0 && viewRows.length === 0 && (
+        <p className="text-center py-8 text-gray-500">No rows match the current filters</p>
+      )}
+
       {data.length === 0 && !isAddingRow && (
-        <div className="text-center py-12">
+        // Focusable so a block copied from a spreadsheet can be pasted straight in
+        <div tabIndex={0} className="text-center py-12 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-300">
           <div className="w-16 h-16 bg-gradient-to-br from-green-100 to-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <Plus className="w-8 h-8 text-gray-400" />
           </div>
           <p className="text-gray-500 text-lg">No data yet</p>
-          <p className="text-gray-400 text-sm">Add your first row to start building your dataset</p>
+          <p className="text-gray-400 text-sm">Add your first row, or click here and paste cells copied from a spreadsheet</p>
         </div>
       )}
 
       {/* Excel Uploader Modal */}
       {showExcelUploader && (
         <ExcelUploader
-          onDataImport={handleExcelImport}
+          existingFields={fields}
+          existingData={data}
+          onDataImport={onDataImport}
+          onImportAsDataset={onImportAsDataset}
           onClose={() => setShowExcelUploader(false)}
         />
       )}
+
+      {showDuplicateFinder && (
+        <DuplicateFinder
+          fields={fields}
+          data={data}
+          onDataChange={onDataChange}
+          onClose={() => setShowDuplicateFinder(false)}
+        />
+      )}
+
+      {showFilterBuilder && onFilterChange && (
+        <FilterBuilder
+          fields={fields}
+          formulaPlan={formulaPlan}
+          query={filter?.query}
+          onApply={(query) => onFilterChange({ columns: columnFilters, query })}
+          onClose={() => setShowFilterBuilder(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          fields={fields}
+          rows={computedData}
+          viewRows={viewRows}
+          defaultFileName={datasetName}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { Layers, ChevronDown, Plus, Edit3, Copy, Trash2, Check, X, HardDrive, Archive, ArchiveRestore } from 'lucide-react';
+import { Dataset } from '../types';
+import { StorageUsage, formatBytes } from '../utils/storage';
+
+interface DatasetSwitcherProps {
+  datasets: Dataset[];
+  activeDatasetId: string;
+  storageUsage?: StorageUsage | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onBackup: () => void;
+  onRestore: () => void;
+}
+
+export const DatasetSwitcher: React.FC<DatasetSwitcherProps> = ({
+  datasets,
+  activeDatasetId,
+  storageUsage,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onBackup,
+  onRestore
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const activeDataset = datasets.find(d => d.id === activeDatasetId);
+
+  const close = () => {
+    setIsOpen(false);
+    setRenamingId(null);
+    setIsCreating(false);
+    setNewName('');
+  };
+
+  const startRename = (dataset: Dataset) => {
+    setRenamingId(dataset.id);
+    setRenameValue(dataset.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const commitCreate = () => {
+    if (newName.trim()) {
+      onCreate(newName.trim());
+      close();
+    }
+  };
+
+  const handleDelete = (dataset: Dataset) => {
+    if (window.confirm(`Delete "${dataset.name}"? Its fields, rows and charts will be removed.`)) {
+      onDelete(dataset.id);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-medium text-gray-700 hover:border-gray-300 hover:bg-gray-50 transition-all duration-200"
+      >
+        <Layers className="w-4 h-4 text-blue-600" />
+        <span className="max-w-[10rem] truncate">{activeDataset?.name}</span>
+        <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={close} />
+          <div className="absolute left-0 mt-2 w-80 bg-white rounded-xl shadow-2xl border border-gray-200 z-50 overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100">
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Datasets</p>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto py-1">
+              {datasets.map((dataset) => (
+                <div
+                  key={dataset.id}
+                  className={`group flex items-center gap-2 px-3 py-2 ${
+                    dataset.id === activeDatasetId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  {renamingId === dataset.id ? (
+                    <>
+                      <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        autoFocus
+                      />
+                      <button
+                        onClick={commitRename}
+                        className="p-1 text-green-600 hover:bg-green-50 rounded transition-colors"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setRenamingId(null)}
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => {
+                          onSelect(dataset.id);
+                          close();
+                        }}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className={`text-sm font-medium truncate ${
+                          dataset.id === activeDatasetId ? 'text-blue-700' : 'text-gray-900'
+                        }`}>
+                          {dataset.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {dataset.fields.length} fields · {dataset.data.length} rows
+                        </p>
+                      </button>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => startRename(dataset)}
+                          title="Rename"
+                          className="p-1 text-blue-600 hover:bg-blue-100 rounded transition-colors"
+                        >
+                          <Edit3 className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => onDuplicate(dataset.id)}
+                          title="Duplicate"
+                          className="p-1 text-gray-600 hover:bg-gray-200 rounded transition-colors"
+                        >
+                          <Copy className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(dataset)}
+                          title="Delete"
+                          className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t border-gray-100 p-2">
+              {isCreating ? (
+                <div className="flex items-center gap-2 px-1">
+                  <input
+                    type="text"
+                    placeholder="Dataset name..."
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitCreate();
+                      if (e.key === 'Escape') setIsCreating(false);
+                    }}
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    autoFocus
+                  />
+                  <button
+                    onClick={commitCreate}
+                    disabled={!newName.trim()}
+                    className="p-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setIsCreating(true)}
+                  className="w-full flex items-center gap-2 px-2 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  New Dataset
+                </button>
+              )}
+            </div>
+
+            <div className="border-t border-gray-100 p-2 grid grid-cols-2 gap-1">
+              <button
+                onClick={() => {
+                  onBackup();
+                  close();
+                }}
+                title="Download every dataset, with rows and charts, as one file"
+                className="flex items-center gap-2 px-2 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <Archive className="w-4 h-4" />
+                Back up all
+              </button>
+              <button
+                onClick={() => {
+                  onRestore();
+                  close();
+                }}
+                className="flex items-center gap-2 px-2 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <ArchiveRestore className="w-4 h-4" />
+                Restore…
+              </button>
+            </div>
+
+            {storageUsage && (
+              <div className="border-t border-gray-100 px-4 py-2 flex items-center gap-2 text-xs text-gray-500">
+                <HardDrive className="w-3 h-3" />
+                {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} storage used
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,337 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, X, Merge, Trash2 } from 'lucide-react';
+import { ChangeMeta, Field, TableRow } from '../types';
+import { useDuplicateGroups } from '../hooks/useDuplicateGroups';
+import { formatCellValue } from '../utils/fieldTypes';
+import {
+  DuplicateGroup,
+  FUZZY_ROW_LIMIT,
+  GroupResolution,
+  MatchMode,
+  defaultResolution,
+  resolveDuplicates
+} from '../utils/duplicates';
+
+interface DuplicateFinderProps {
+  fields: Field[];
+  data: TableRow[];
+  onDataChange: (data: TableRow[], meta?: ChangeMeta) => void;
+  onClose: () => void;
+}
+
+const GROUPS_PER_PAGE = 20;
+
+// Groups are identified by their first row, which stays stable while other groups are settled
+const groupKey = (group: DuplicateGroup) => group.rowIds[0];
+
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ fields, data, onDataChange, onClose }) => {
+  // Formula values are computed from the others, so they can't be matched on or merged
+  const dataFields = useMemo(() => fields.filter(field => field.type !== 'formula'), [fields]);
+  const [keyFieldIds, setKeyFieldIds] = useState<string[]>(() => dataFields.slice(0, 1).map(field => field.id));
+  const fuzzyAllowed = data.length <= FUZZY_ROW_LIMIT;
+  const [mode, setMode] = useState<MatchMode>('exact');
+  const [maxDistance, setMaxDistance] = useState(2);
+  const [resolutions, setResolutions] = useState<Record<string, GroupResolution>>({});
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [visibleCount, setVisibleCount] = useState(GROUPS_PER_PAGE);
+
+  const rowsById = useMemo(() => new Map(data.map((row, index) => [row.id, { row, index }])), [data]);
+  const search = useDuplicateGroups(data, keyFieldIds, fuzzyAllowed ? mode : 'exact', maxDistance);
+  const groups = useMemo(
+    () => search.groups.filter(group => !dismissed.has(groupKey(group))),
+    [search.groups, dismissed]
+  );
+  const duplicateRowCount = groups.reduce((sum, group) => sum + group.rowIds.length - 1, 0);
+
+  const rowsOf = (group: DuplicateGroup) => group.rowIds.map(id => rowsById.get(id)!.row);
+  const resolutionFor = (group: DuplicateGroup) =>
+    resolutions[groupKey(group)] ?? defaultResolution(rowsOf(group), dataFields);
+
+  const setResolution = (group: DuplicateGroup, resolution: GroupResolution) =>
+    setResolutions(prev => ({ ...prev, [groupKey(group)]: resolution }));
+
+  const chooseKeptRow = (group: DuplicateGroup, keepId: string) => {
+    const rows = rowsOf(group);
+    const kept = rows.find(row => row.id === keepId)!;
+    setResolution(group, defaultResolution([kept, ...rows.filter(row => row.id !== keepId)], dataFields));
+  };
+
+  // Anything that regroups rows starts the choices over, since they name rows by group
+  const toggleKeyField = (fieldId: string) => {
+    setKeyFieldIds(prev => prev.includes(fieldId) ? prev.filter(id => id !== fieldId) : [...prev, fieldId]);
+    setResolutions({});
+  };
+
+  const changeMode = (next: MatchMode) => {
+    setMode(next);
+    setResolutions({});
+  };
+
+  const changeMaxDistance = (next: number) => {
+    setMaxDistance(next);
+    setResolutions({});
+  };
+
+  // `merge` false keeps the chosen rows exactly as they are
+  const settle = (targets: DuplicateGroup[], merge: boolean) => {
+    const chosen = targets.map(group => {
+      const resolution = resolutionFor(group);
+      return merge ? resolution : { keepId: resolution.keepId, sources: {} };
+    });
+    const removed = targets.reduce((sum, group) => sum + group.rowIds.length - 1, 0);
+    onDataChange(resolveDuplicates(data, targets, chosen), {
+      label: `${merge ? 'Merge' : 'Delete'} ${removed} duplicate ${removed === 1 ? 'row' : 'rows'}`
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-orange-500 to-pink-600 rounded-xl flex items-center justify-center">
+              <Copy className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Find Duplicates</h2>
+              <p className="text-sm text-gray-600">Match rows on key fields, then keep one, merge them or delete the extras</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Matching options */}
+        <div className="p-6 border-b border-gray-200 space-y-4">
+          <div>
+            <p className="text-sm font-medium text-gray-900 mb-2">Rows are duplicates when these fields match:</p>
+            <div className="flex flex-wrap gap-2">
+              {dataFields.map(field => (
+                <button
+                  key={field.id}
+                  onClick={() => toggleKeyField(field.id)}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                    keyFieldIds.includes(field.id)
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {field.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={mode === 'exact'}
+                onChange={() => changeMode('exact')}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              Exact match
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={mode === 'fuzzy' && fuzzyAllowed}
+                onChange={() => changeMode('fuzzy')}
+                disabled={!fuzzyAllowed}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <span className={fuzzyAllowed ? '' : 'text-gray-400'}>Similar text (ignores case and spacing)</span>
+            </label>
+            {!fuzzyAllowed && (
+              <span className="text-xs text-gray-500">
+                Only exact matching is available above {FUZZY_ROW_LIMIT.toLocaleString()} rows
+              </span>
+            )}
+            {mode === 'fuzzy' && fuzzyAllowed && (
+              <label className="flex items-center gap-2">
+                allowing up to
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={maxDistance}
+                  onChange={(e) => changeMaxDistance(Math.max(0, Math.min(5, parseInt(e.target.value) || 0)))}
+                  className="w-14 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                typos
+              </label>
+            )}
+          </div>
+        </div>
+
+        {/* Groups */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {keyFieldIds.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Choose at least one field to match on</p>
+          ) : search.searching ? (
+            <p className="text-center text-gray-500 py-8">Looking for similar rows...</p>
+          ) : search.error ? (
+            <p className="text-center text-red-600 py-8">{search.error}</p>
+          ) : groups.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No duplicates found</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {groups.length} {groups.length === 1 ? 'group' : 'groups'} with {duplicateRowCount} extra {duplicateRowCount === 1 ? 'row' : 'rows'}.
+                Pick the row to keep, and click a value to use it in the merged row.
+              </p>
+              {groups.slice(0, visibleCount).map(group => (
+                <DuplicateGroupCard
+                  key={groupKey(group)}
+                  rows={rowsOf(group)}
+                  rowNumbers={group.rowIds.map(id => rowsById.get(id)!.index + 1)}
+                  fields={dataFields}
+                  keyFieldIds={keyFieldIds}
+                  resolution={resolutionFor(group)}
+                  onKeep={(rowId) => chooseKeptRow(group, rowId)}
+                  onSource={(fieldId, rowId) => {
+                    const resolution = resolutionFor(group);
+                    setResolution(group, { ...resolution, sources: { ...resolution.sources, [fieldId]: rowId } });
+                  }}
+                  onMerge={() => settle([group], true)}
+                  onDeleteOthers={() => settle([group], false)}
+                  onDismiss={() => setDismissed(prev => new Set(prev).add(groupKey(group)))}
+                />
+              ))}
+              {groups.length > visibleCount && (
+                <button
+                  onClick={() => setVisibleCount(count => count + GROUPS_PER_PAGE)}
+                  className="w-full py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  Show {Math.min(GROUPS_PER_PAGE, groups.length - visibleCount)} more groups
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Bulk actions */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+          >
+            Close
+          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => settle(groups, false)}
+              disabled={groups.length === 0}
+              className="inline-flex items-center gap-2 border border-red-300 text-red-700 hover:bg-red-50 font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete {duplicateRowCount} extra {duplicateRowCount === 1 ? 'row' : 'rows'}
+            </button>
+            <button
+              onClick={() => settle(groups, true)}
+              disabled={groups.length === 0}
+              className="inline-flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Merge className="w-4 h-4" />
+              Merge all {groups.length} {groups.length === 1 ? 'group' : 'groups'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const DuplicateGroupCard: React.FC<{
+  rows: TableRow[];
+  rowNumbers: number[];
+  fields: Field[];
+  keyFieldIds: string[];
+  resolution: GroupResolution;
+  onKeep: (rowId: string) => void;
+  onSource: (fieldId: string, rowId: string) => void;
+  onMerge: () => void;
+  onDeleteOthers: () => void;
+  onDismiss: () => void;
+}> = ({ rows, rowNumbers, fields, keyFieldIds, resolution, onKeep, onSource, onMerge, onDeleteOthers, onDismiss }) => (
+  <div className="border border-gray-200 rounded-xl overflow-hidden">
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-700">Field</th>
+            {rows.map((row, index) => (
+              <th key={row.id} className="px-3 py-2 text-left font-medium text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={resolution.keepId === row.id}
+                    onChange={() => onKeep(row.id)}
+                    className="text-green-600 focus:ring-green-500"
+                  />
+                  Row {rowNumbers[index]}
+                  {resolution.keepId === row.id && <span className="text-xs text-green-700">(kept)</span>}
+                </label>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field.id} className="border-t border-gray-100">
+              <td className={`px-3 py-2 text-gray-600 ${keyFieldIds.includes(field.id) ? 'font-medium' : ''}`}>
+                {field.name}
+              </td>
+              {rows.map(row => {
+                const selected = (resolution.sources[field.id] ?? resolution.keepId) === row.id;
+                return (
+                  <td key={row.id} className="px-1 py-1">
+                    <button
+                      onClick={() => onSource(field.id, row.id)}
+                      className={`w-full text-left px-2 py-1 rounded-lg transition-colors ${
+                        selected ? 'bg-green-50 text-green-900 ring-1 ring-green-300' : 'text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {formatCellValue(row[field.id], field) || <span className="text-gray-300">empty</span>}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+    <div className="flex items-center justify-end gap-2 p-3 bg-gray-50 border-t border-gray-100">
+      <button
+        onClick={onDismiss}
+        className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+      >
+        Not duplicates
+      </button>
+      <button
+        onClick={onDeleteOthers}
+        className="px-3 py-1.5 text-sm text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+      >
+        Keep row only
+      </button>
+      <button
+        onClick={onMerge}
+        className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+      >
+        Merge
+      </button>
+    </div>
+  </div>
+);
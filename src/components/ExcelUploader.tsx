@@ -1,154 +1,158 @@
 import React, { useRef, useState } from 'react';
 import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X, Download } from 'lucide-react';
-import { Field, TableRow } from '../types';
+import { Field, FieldType, TableRow } from '../types';
+import { FIELD_TYPES } from '../utils/fieldTypes';
+import { DATE_FORMATS, DateFormat } from '../utils/dates';
+import { FAILURE_POLICIES, FailurePolicy, SheetLayout, SheetSummary, typeFit, headersMatch } from '../utils/importer';
+import { NestedMode } from '../utils/jsonImport';
+import { BuildResult, BuiltRows, GridSource, PREVIEW_ROW_COUNT } from '../workers/importProtocol';
+import { ImportCancelledError, ImportProgress, useImportWorker } from '../hooks/useImportWorker';
+import { SheetPicker } from './SheetPicker';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { ImportLayoutControls } from './ImportLayoutControls';
+import { ImportIssuesReport } from './ImportIssuesReport';
 
 import * as XLSX from 'xlsx';
 
+const SUPPORTED_FILES = /\.(xlsx|xls|csv|tsv|json|ndjson|jsonl)$/i;
+// Parsing happens in a worker, so this only guards against running out of memory
+const MAX_FILE_SIZE = 500 * 1024 * 1024;
+
+// One preview per dataset that will be created; several when sheets import separately.
+// The parsed file and converted rows stay in the import worker until the import is confirmed;
+// `source` says which part of the file the preview was built from.
+type ImportPreview = BuildResult & {
+  name: string;
+  source: GridSource;
+  overrides: Record<number, FieldType>;
+  dateFormats: Record<number, DateFormat>;
+  policies: Record<number, FailurePolicy>;
+  // Set when the chosen layout leaves no header or data rows
+  layoutError?: string;
+};
+
 interface ExcelUploaderProps {
+  // Receives the dataset's complete schema and rows after the import is applied
   onDataImport: (fields: Field[], data: TableRow[]) => void;
+  // The current dataset, which imports can be mapped onto instead of replacing it
+  existingFields?: Field[];
+  existingData?: TableRow[];
+  onImportAsDataset?: (name: string, fields: Field[], data: TableRow[]) => void;
   onClose: () => void;
 }
 
-export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onClose }) => {
+export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, existingFields = [], existingData = [], onImportAsDataset, onClose }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [preview, setPreview] = useState<{ fields: Field[], data: TableRow[] } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  // The confirmed import, once its rows have arrived, while it's mapped onto the current fields
+  const [mapped, setMapped] = useState<({ fields: Field[] } & BuiltRows) | null>(null);
+  const importWorker = useImportWorker();
+  // Only the latest rebuild may update the preview; earlier ones were superseded
+  const buildRef = useRef(0);
 
-  const detectFieldType = (value: any): Field['type'] => {
-    if (value === null || value === undefined || value === '') return 'text';
-    
-    // Check if it's a boolean
-    if (typeof value === 'boolean' || value === 'true' || value === 'false' || 
-        value === 'yes' || value === 'no' || value === 'Y' || value === 'N') {
-      return 'boolean';
-    }
-    
-    // Check if it's a number
-    if (!isNaN(Number(value)) && !isNaN(parseFloat(value))) {
-      return 'number';
-    }
-    
-    // Check if it's a date
-    const dateValue = new Date(value);
-    if (!isNaN(dateValue.getTime()) && value.toString().match(/\d{1,4}[-\/]\d{1,2}[-\/]\d{1,4}/)) {
-      return 'date';
-    }
-    
-    // Check if it's an email
-    if (typeof value === 'string' && value.includes('@') && value.includes('.')) {
-      return 'email';
-    }
-    
-    return 'text';
+  // Sheets of a multi-sheet workbook, shown in the picker before previewing
+  const [sheets, setSheets] = useState<SheetSummary[] | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [sheetMode, setSheetMode] = useState<'separate' | 'append'>('separate');
+
+  // Set for JSON files; nested objects can be laid out again
+  const [jsonNested, setJsonNested] = useState<boolean | null>(null);
+  const [nestedMode, setNestedMode] = useState<NestedMode>('flatten');
+
+  const selectedSummaries = (sheets || []).filter(summary => selectedSheets.includes(summary.name));
+  const canAppend = selectedSummaries.length > 1 &&
+    selectedSummaries.every(summary => headersMatch(summary.headers, selectedSummaries[0].headers));
+
+  // Cancelling starts over from the upload step, so there's nothing to report
+  const showError = (err: unknown, fallback: string) => {
+    if (!(err instanceof ImportCancelledError)) setError(err instanceof Error ? err.message : fallback);
   };
 
-  const convertValue = (value: any, type: Field['type']): any => {
-    if (value === null || value === undefined || value === '') {
-      return type === 'number' ? 0 : type === 'boolean' ? false : '';
+  const createPreview = async (name: string, source: GridSource): Promise<ImportPreview> => ({
+    name,
+    source,
+    overrides: {},
+    dateFormats: {},
+    policies: {},
+    ...await importWorker.build({ source, overrides: {}, dateFormats: {}, policies: {} })
+  });
+
+  const processFile = async (file: File) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const result = await importWorker.read(file);
+      if (result.json) {
+        setJsonNested(result.nested);
+        setNestedMode('flatten');
+        setPreview([await createPreview(file.name.replace(/\.[^.]+$/, ''), { kind: 'json', nested: 'flatten' })]);
+      } else {
+        const usable = result.sheets.filter(sheet => sheet.rowCount > 0);
+        if (usable.length > 1) {
+          // Let the user choose; preselect the first sheet that has data
+          setSheets(result.sheets);
+          setSelectedSheets([usable[0].name]);
+          setSheetMode('separate');
+        } else {
+          const sheet = usable[0] || result.sheets[0];
+          setPreview([await createPreview(sheet.name, { kind: 'sheets', names: [sheet.name] })]);
+        }
+      }
+    } catch (err) {
+      showError(err, 'Failed to process file');
     }
-    
-    switch (type) {
-      case 'number':
-        return Number(value) || 0;
-      case 'boolean':
-        if (typeof value === 'boolean') return value;
-        const str = value.toString().toLowerCase();
-        return str === 'true' || str === 'yes' || str === 'y' || str === '1';
-      case 'date':
-        const date = new Date(value);
-        return !isNaN(date.getTime()) ? date.toISOString().split('T')[0] : '';
-      default:
-        return value.toString();
+    setIsProcessing(false);
+  };
+
+  const changeNestedMode = async (mode: NestedMode) => {
+    if (!preview) return;
+    setNestedMode(mode);
+    try {
+      setPreview([await createPreview(preview[0].name, { kind: 'json', nested: mode })]);
+    } catch (err) {
+      showError(err, 'Failed to process JSON file');
     }
   };
 
-  const processExcelFile = (file: File) => {
-    setIsProcessing(true);
-    setError(null);
+  const toggleSheet = (name: string) => {
+    setSelectedSheets(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        if (jsonData.length < 2) {
-          throw new Error('Excel file must have at least a header row and one data row');
-        }
-        
-        // Extract headers (first row)
-        const headers = jsonData[0] as string[];
-        const dataRows = jsonData.slice(1) as any[][];
-        
-        // Create fields based on headers and data types
-        const fields: Field[] = headers.map((header, index) => {
-          // Sample first few non-empty values to determine type
-          const sampleValues = dataRows
-            .map(row => row[index])
-            .filter(val => val !== null && val !== undefined && val !== '')
-            .slice(0, 5);
-          
-          const detectedType = sampleValues.length > 0 
-            ? detectFieldType(sampleValues[0]) 
-            : 'text';
-          
-          return {
-            id: `field_${index}_${Date.now()}`,
-            name: header.toString().trim() || `Column ${index + 1}`,
-            type: detectedType,
-            required: false
-          };
-        });
-        
-        // Convert data rows to table format
-        const tableData: TableRow[] = dataRows
-          .filter(row => row.some(cell => cell !== null && cell !== undefined && cell !== ''))
-          .map((row, rowIndex) => {
-            const rowData: TableRow = {
-              id: `row_${rowIndex}_${Date.now()}`
-            };
-            
-            fields.forEach((field, fieldIndex) => {
-              const cellValue = row[fieldIndex];
-              rowData[field.name] = convertValue(cellValue, field.type);
-            });
-            
-            return rowData;
-          });
-        
-        setPreview({ fields, data: tableData });
-        setIsProcessing(false);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to process Excel file');
-        setIsProcessing(false);
+  const previewSelectedSheets = async () => {
+    if (!sheets) return;
+    setIsProcessing(true);
+    try {
+      // Keep workbook order regardless of the order sheets were ticked in
+      const chosen = sheets.filter(sheet => selectedSheets.includes(sheet.name)).map(sheet => sheet.name);
+      if (chosen.length > 1 && sheetMode === 'append' && canAppend) {
+        setPreview([await createPreview(chosen.join(' + '), { kind: 'sheets', names: chosen })]);
+      } else {
+        setPreview(await Promise.all(chosen.map(name => createPreview(name, { kind: 'sheets', names: [name] }))));
       }
-    };
-    
-    reader.onerror = () => {
-      setError('Failed to read file');
-      setIsProcessing(false);
-    };
-    
-    reader.readAsArrayBuffer(file);
+      setError(null);
+    } catch (err) {
+      showError(err, 'Failed to process the selected sheets');
+    }
+    setIsProcessing(false);
   };
 
   const handleFileSelect = (file: File) => {
-    if (!file.name.match(/\.(xlsx|xls|csv)$/i)) {
-      setError('Please select a valid Excel file (.xlsx, .xls) or CSV file');
+    if (!SUPPORTED_FILES.test(file.name)) {
+      setError('Please select an Excel (.xlsx, .xls), CSV, TSV, JSON or NDJSON file');
       return;
     }
     
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      setError('File size must be less than 10MB');
+    if (file.size > MAX_FILE_SIZE) {
+      setError('File size must be less than 500MB');
       return;
     }
     
-    processExcelFile(file);
+    setFileName(file.name.replace(/\.[^.]+$/, ''));
+    processFile(file);
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -178,13 +182,94 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
     }
   };
 
+  // Fetches the previewed rows from the worker, reporting a failure instead of importing
+  const withRows = async (items: ImportPreview[], action: (rows: BuiltRows[]) => void) => {
+    setIsProcessing(true);
+    try {
+      const rows: BuiltRows[] = [];
+      for (const item of items) rows.push(await importWorker.rows(item.buildId));
+      setError(null);
+      action(rows);
+    } catch (err) {
+      showError(err, 'Failed to load the imported rows');
+    }
+    setIsProcessing(false);
+  };
+
   const handleImport = () => {
-    if (preview) {
-      onDataImport(preview.fields, preview.data);
+    if (preview?.length !== 1) return;
+    withRows(preview, ([{ data }]) => {
+      onDataImport(preview[0].fields, data);
+      onClose();
+    });
+  };
+
+  const startMapping = () => {
+    if (preview?.length !== 1) return;
+    withRows(preview, ([rows]) => setMapped({ fields: preview[0].fields, ...rows }));
+  };
+
+  const handleImportAsDataset = () => {
+    if (!preview || !onImportAsDataset) return;
+    const baseName = fileName || 'Imported Data';
+    withRows(preview, rows => {
+      preview.forEach((item, index) => {
+        // Single-sheet workbooks keep the file name; otherwise name each dataset after its sheet
+        const name = sheets ? `${baseName} - ${item.name}` : baseName;
+        onImportAsDataset(name, item.fields, rows[index].data);
+      });
       onClose();
+    });
+  };
+
+  // Shows the new settings straight away, then swaps in the rebuilt rows
+  const rebuildPreview = async (item: ImportPreview) => {
+    const build = ++buildRef.current;
+    const replaceFirst = (next: ImportPreview) => setPreview(prev => prev && [next, ...prev.slice(1)]);
+    replaceFirst(item);
+    try {
+      const result = await importWorker.build(item);
+      if (build === buildRef.current) replaceFirst({ ...item, ...result, layoutError: undefined });
+    } catch (err) {
+      if (err instanceof ImportCancelledError) return;
+      const layoutError = err instanceof Error ? err.message : 'No data rows left with this layout';
+      if (build === buildRef.current) replaceFirst({ ...item, fields: [], rowCount: 0, previewRows: [], columns: [], layoutError });
     }
   };
 
+  const overrideType = (columnIndex: number, type: FieldType) => {
+    if (preview) rebuildPreview({ ...preview[0], overrides: { ...preview[0].overrides, [columnIndex]: type } });
+  };
+
+  const overrideDateFormat = (columnIndex: number, format: DateFormat) => {
+    if (preview) rebuildPreview({ ...preview[0], dateFormats: { ...preview[0].dateFormats, [columnIndex]: format } });
+  };
+
+  const changePolicy = (columnIndex: number, policy: FailurePolicy) => {
+    if (preview) rebuildPreview({ ...preview[0], policies: { ...preview[0].policies, [columnIndex]: policy } });
+  };
+
+  // Columns can shift with the header row, so per-column choices start over
+  const changeLayout = (layout: SheetLayout) => {
+    if (preview) rebuildPreview({ ...preview[0], layout, overrides: {}, dateFormats: {}, policies: {} });
+  };
+
+  const resetUpload = () => {
+    setPreview(null);
+    setMapped(null);
+    setSheets(null);
+    setSelectedSheets([]);
+    setJsonNested(null);
+    setError(null);
+  };
+
+  const cancelProcessing = () => {
+    // Stopping the worker discards the file it read, so start over from the upload step
+    importWorker.cancel();
+    resetUpload();
+    setIsProcessing(false);
+  };
+
   return (
     <div 
       className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
@@ -203,7 +288,7 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
             </div>
             <div>
               <h2 className="text-xl font-bold text-gray-900">Import Excel File</h2>
-              <p className="text-sm text-gray-600">Upload your Excel file to automatically create fields and import data</p>
+              <p className="text-sm text-gray-600">Upload a spreadsheet or JSON file to automatically create fields and import data</p>
             </div>
           </div>
           <button
@@ -215,7 +300,38 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
         </div>
 
         <div className="p-6 max-h-[calc(90vh-120px)] overflow-y-auto">
-          {!preview ? (
+          {preview?.length === 1 && mapped ? (
+            <ColumnMappingWizard
+              name={preview[0].name}
+              imported={mapped}
+              existingFields={existingFields}
+              existingData={existingData}
+              onBack={() => setMapped(null)}
+              onConfirm={(fields, data) => {
+                onDataImport(fields, data);
+                onClose();
+              }}
+            />
+          ) : !preview && sheets ? (
+            <>
+              <SheetPicker
+                sheets={sheets}
+                selected={selectedSheets}
+                onToggle={toggleSheet}
+                mode={sheetMode}
+                onModeChange={setSheetMode}
+                canAppend={canAppend}
+                onBack={resetUpload}
+                onContinue={previewSelectedSheets}
+              />
+              {error && (
+                <div className="mt-6 p-4 bg-red-50 rounded-xl flex items-center gap-3">
+                  <AlertCircle className="w-6 h-6 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+            </>
+          ) : !preview ? (
             <>
               {/* Upload Area */}
               <div
@@ -236,9 +352,9 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
                   </div>
                   
                   <div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Upload Excel File</h3>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Upload a File</h3>
                     <p className="text-gray-600 mb-4">
-                      Drag and drop your Excel file here, or click to browse
+                      Drag and drop a spreadsheet or JSON file here, or click to browse
                     </p>
                     
                     <button
@@ -253,14 +369,14 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".xlsx,.xls,.csv"
+                      accept=".xlsx,.xls,.csv,.tsv,.json,.ndjson,.jsonl"
                       onChange={handleFileInputChange}
                       className="hidden"
                     />
                   </div>
                   
                   <p className="text-sm text-gray-500">
-                    Supported formats: .xlsx, .xls, .csv (Max 10MB)
+                    Supported formats: .xlsx, .xls, .csv, .tsv, .json, .ndjson (Max 500MB)
                   </p>
                 </div>
               </div>
@@ -303,7 +419,7 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
                   </li>
                   <li className="flex items-center gap-2">
                     <div className="w-1.5 h-1.5 bg-blue-600 rounded-full"></div>
-                    Data types will be automatically detected (text, number, date, email, boolean)
+                    Data types will be automatically detected (text, number, date, email, boolean, currency, percent, URL, select)
                   </li>
                   <li className="flex items-center gap-2">
                     <div className="w-1.5 h-1.5 bg-blue-600 rounded-full"></div>
@@ -318,14 +434,8 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
 
               {/* Processing State */}
               {isProcessing && (
-                <div className="mt-6 p-4 bg-yellow-50 rounded-xl">
-                  <div className="flex items-center gap-3">
-                    <div className="w-6 h-6 border-2 border-yellow-600 border-t-transparent rounded-full animate-spin"></div>
-                    <div>
-                      <p className="font-medium text-yellow-900">Processing your file...</p>
-                      <p className="text-sm text-yellow-700">This may take a moment for large files</p>
-                    </div>
-                  </div>
+                <div className="mt-6">
+                  <ImportProgressBar progress={importWorker.progress} onCancel={cancelProcessing} />
                 </div>
               )}
 
@@ -350,69 +460,81 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
                 <div>
                   <p className="font-medium text-green-900">File processed successfully!</p>
                   <p className="text-sm text-green-700">
-                    Found {preview.fields.length} fields and {preview.data.length} rows
+                    {preview.length === 1
+                      ? `Found ${preview[0].fields.length} fields and ${preview[0].rowCount} rows`
+                      : `${preview.length} sheets will be imported as separate datasets`}
                   </p>
                 </div>
               </div>
-              {/* Fields Preview */}
-              <div>
-                <h4 className="font-medium text-gray-900 mb-3">Detected Fields:</h4>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                  {preview.fields.map((field) => (
-                    <div key={field.id} className="p-3 bg-gray-50 rounded-lg">
+              {importWorker.progress && (
+                <ImportProgressBar progress={importWorker.progress} onCancel={cancelProcessing} />
+              )}
+              {error && (
+                <div className="p-4 bg-red-50 rounded-xl flex items-center gap-3">
+                  <AlertCircle className="w-6 h-6 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+              {preview.length === 1 ? (
+                <>
+                  {jsonNested !== null ? (
+                    jsonNested && <NestedModePicker mode={nestedMode} onChange={changeNestedMode} />
+                  ) : (
+                    <ImportLayoutControls sample={preview[0].sample} layout={preview[0].layout} onChange={changeLayout} />
+                  )}
+                  {preview[0].layoutError ? (
+                    <div className="p-4 bg-red-50 rounded-xl flex items-center gap-3">
+                      <AlertCircle className="w-6 h-6 text-red-600 flex-shrink-0" />
+                      <p className="text-sm text-red-700">{preview[0].layoutError}</p>
+                    </div>
+                  ) : (
+                    <>
+                      <ImportIssuesReport
+                        name={preview[0].name}
+                        issues={preview[0].issues ?? []}
+                        skippedRows={preview[0].skippedRows ?? 0}
+                      />
+                      <ImportPreviewDetails
+                        preview={preview[0]}
+                        onTypeChange={overrideType}
+                        onDateFormatChange={overrideDateFormat}
+                        onPolicyChange={changePolicy}
+                      />
+                    </>
+                  )}
+                </>
+              ) : (
+                <div className="space-y-2">
+                  {preview.map(item => (
+                    <div key={item.name} className="p-3 bg-gray-50 rounded-lg">
                       <div className="flex items-center justify-between">
-                        <span className="font-medium text-gray-900">{field.name}</span>
-                        <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full">
-                          {field.type}
+                        <div className="flex items-center gap-2">
+                          <FileSpreadsheet className="w-4 h-4 text-green-600" />
+                          <span className="font-medium text-gray-900">{item.name}</span>
+                        </div>
+                        <span className="text-sm text-gray-600">
+                          {item.fields.length} fields · {item.rowCount} rows
                         </span>
                       </div>
+                      <ImportIssuesReport name={item.name} issues={item.issues ?? []} skippedRows={item.skippedRows ?? 0} compact />
                     </div>
                   ))}
                 </div>
-              </div>
-              {/* Data Preview */}
-              <div>
-                <h4 className="font-medium text-gray-900 mb-3">Data Preview (first 5 rows):</h4>
-                <div className="overflow-x-auto">
-                  <table className="w-full border border-gray-200 rounded-lg">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        {preview.fields.map((field) => (
-                          <th key={field.id} className="px-3 py-2 text-left text-sm font-medium text-gray-900 border-b border-gray-200">
-                            {field.name}
-                          </th>
-                        ))}
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {preview.data.slice(0, 5).map((row, index) => (
-                        <tr key={row.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-25'}>
-                          {preview.fields.map((field) => (
-                            <td key={field.id} className="px-3 py-2 text-sm text-gray-900 border-b border-gray-200">
-                              {row[field.name]?.toString() || ''}
-                            </td>
-                          ))}
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-                {preview.data.length > 5 && (
-                  <p className="text-sm text-gray-600 mt-2">
-                    ... and {preview.data.length - 5} more rows
-                  </p>
-                )}
-              </div>
+              )}
               {/* Import Actions */}
               <div className="flex items-center justify-between pt-4 border-t border-gray-200">
                 <button
                   onClick={() => {
-                    setPreview(null);
-                    setError(null);
+                    if (sheets) {
+                      setPreview(null);
+                      setError(null);
+                    } else {
+                      resetUpload();
+                    }
                   }}
                   className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
                 >
-                  ← Back to Upload
+                  {sheets ? '← Back to Sheets' : '← Back to Upload'}
                 </button>
                 <div className="flex items-center gap-3">
                   <button
@@ -421,12 +543,26 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
                   >
                     Cancel
                   </button>
-                  <button
-                    onClick={handleImport}
-                    className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
-                  >
-                    Import Data
-                  </button>
+                  {onImportAsDataset && (
+                    <button
+                      onClick={handleImportAsDataset}
+                      disabled={Boolean(preview[0].layoutError) || importWorker.progress !== null || isProcessing}
+                      className={`font-medium py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${preview.length === 1
+                        ? 'border border-green-600 text-green-700 hover:bg-green-50'
+                        : 'bg-green-600 hover:bg-green-700 text-white'}`}
+                    >
+                      {preview.length === 1 ? 'Import as New Dataset' : `Import ${preview.length} Datasets`}
+                    </button>
+                  )}
+                  {preview.length === 1 && (
+                    <button
+                      onClick={existingFields.length > 0 ? startMapping : handleImport}
+                      disabled={Boolean(preview[0].layoutError) || importWorker.progress !== null || isProcessing}
+                      className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {existingFields.length > 0 ? 'Import into Current Dataset →' : 'Replace Current Data'}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -435,4 +571,186 @@ export const ExcelUploader: React.FC<ExcelUploaderProps> = ({ onDataImport, onCl
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+const STAGE_LABELS: Record<ImportProgress['stage'], string> = {
+  reading: 'Reading file',
+  parsing: 'Parsing',
+  building: 'Converting rows',
+  receiving: 'Loading rows'
+};
+
+const ImportProgressBar: React.FC<{
+  progress: ImportProgress | null;
+  onCancel: () => void;
+}> = ({ progress, onCancel }) => {
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : null;
+  return (
+    <div className="p-4 bg-yellow-50 rounded-xl">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="flex items-center gap-3">
+          <div className="w-6 h-6 border-2 border-yellow-600 border-t-transparent rounded-full animate-spin"></div>
+          <div>
+            <p className="font-medium text-yellow-900">
+              {progress ? STAGE_LABELS[progress.stage] : 'Processing your file'}...{percent !== null && ` ${percent}%`}
+            </p>
+            <p className="text-sm text-yellow-700">Large files are processed in the background</p>
+          </div>
+        </div>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-yellow-900 hover:bg-yellow-100 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="h-2 bg-yellow-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-yellow-500 transition-all ${percent === null ? 'w-full animate-pulse' : ''}`}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+const NestedModePicker: React.FC<{
+  mode: NestedMode;
+  onChange: (mode: NestedMode) => void;
+}> = ({ mode, onChange }) => (
+  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+    <span className="font-medium text-gray-900">Nested objects:</span>
+    <label className="flex items-center gap-2">
+      <input
+        type="radio"
+        checked={mode === 'flatten'}
+        onChange={() => onChange('flatten')}
+        className="text-blue-600 focus:ring-blue-500"
+      />
+      Split into columns (address.city)
+    </label>
+    <label className="flex items-center gap-2">
+      <input
+        type="radio"
+        checked={mode === 'json'}
+        onChange={() => onChange('json')}
+        className="text-blue-600 focus:ring-blue-500"
+      />
+      Keep as JSON text
+    </label>
+  </div>
+);
+
+const confidenceClass = (fit: number) =>
+  fit >= 0.95 ? 'bg-green-100 text-green-700' : fit >= 0.8 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700';
+
+const ImportPreviewDetails: React.FC<{
+  preview: ImportPreview;
+  onTypeChange: (columnIndex: number, type: FieldType) => void;
+  onDateFormatChange: (columnIndex: number, format: DateFormat) => void;
+  onPolicyChange: (columnIndex: number, policy: FailurePolicy) => void;
+}> = ({ preview: { fields, rowCount, previewRows, columns, issues = [], policies }, onTypeChange, onDateFormatChange, onPolicyChange }) => {
+  const issueCounts = new Map<string, number>();
+  issues.forEach(issue => issueCounts.set(issue.column, (issueCounts.get(issue.column) ?? 0) + 1));
+  return (
+    <>
+      {/* Fields Preview */}
+      <div>
+        <h4 className="font-medium text-gray-900 mb-3">Detected Fields:</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {fields.map((field, index) => {
+            const column = columns?.[index];
+            const fit = column ? typeFit(column, field.type) : 1;
+            return (
+              <div key={field.id} className="p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900 truncate">{field.name}</span>
+                  <select
+                    value={field.type}
+                    onChange={(e) => onTypeChange(index, e.target.value as FieldType)}
+                    className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full border-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {FIELD_TYPES.filter(type => type.value !== 'formula').map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {column && column.sampleSize > 0 && (
+                  <div className="mt-2 flex items-center gap-2 text-xs">
+                    <span className={`px-2 py-0.5 rounded-full ${confidenceClass(fit)}`}>
+                      {Math.round(fit * 100)}% match
+                    </span>
+                  </div>
+                )}
+                {(issueCounts.has(field.name) || policies[index]) && (
+                  <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                    {issueCounts.get(field.name) ?? 0} values don't fit:
+                    <select
+                      value={policies[index] ?? 'empty'}
+                      onChange={(e) => onPolicyChange(index, e.target.value as FailurePolicy)}
+                      className="px-2 py-0.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {FAILURE_POLICIES.map(policy => (
+                        <option key={policy.value} value={policy.value}>{policy.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {column && (field.type === 'date' || field.type === 'datetime') && (
+                  <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                    Read dates as
+                    <select
+                      value={column.dateFormat}
+                      onChange={(e) => onDateFormatChange(index, e.target.value as DateFormat)}
+                      className="px-2 py-0.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {DATE_FORMATS.map(format => (
+                        <option key={format.value} value={format.value}>{format.label} ({format.example})</option>
+                      ))}
+                    </select>
+                    {column.dateFormatAmbiguous && (
+                      <span className="text-amber-600">Could be either way, please check</span>
+                    )}
+                  </label>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      {/* Data Preview */}
+      <div>
+        <h4 className="font-medium text-gray-900 mb-3">Data Preview (first {PREVIEW_ROW_COUNT} rows):</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full border border-gray-200 rounded-lg">
+            <thead className="bg-gray-50">
+              <tr>
+                {fields.map((field) => (
+                  <th key={field.id} className="px-3 py-2 text-left text-sm font-medium text-gray-900 border-b border-gray-200">
+                    {field.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((row, index) => (
+                <tr key={row.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-25'}>
+                  {fields.map((field) => (
+                    <td key={field.id} className="px-3 py-2 text-sm text-gray-900 border-b border-gray-200">
+                      {row[field.id]?.toString() || ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {rowCount > previewRows.length && (
+          <p className="text-sm text-gray-600 mt-2">
+            ... and {rowCount - previewRows.length} more rows
+          </p>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Download, X, FileSpreadsheet, FileText, Braces } from 'lucide-react';
+import { Field, TableRow } from '../types';
+import { CSV_DELIMITERS, CSV_ENCODINGS, CsvEncoding, ExportFormat, exportRows } from '../utils/exporter';
+
+interface ExportDialogProps {
+  fields: Field[];
+  // Every row, with formula values filled in
+  rows: TableRow[];
+  // The rows as currently shown, after filtering and sorting
+  viewRows: TableRow[];
+  defaultFileName: string;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string; icon: typeof FileText }[] = [
+  { value: 'xlsx', label: 'Excel', description: 'Typed cells, real dates', icon: FileSpreadsheet },
+  { value: 'csv', label: 'CSV', description: 'Plain text, any tool', icon: FileText },
+  { value: 'json', label: 'JSON', description: 'Records keyed by field name', icon: Braces }
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ fields, rows, viewRows, defaultFileName, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [scope, setScope] = useState<'all' | 'view'>('all');
+  const [fileName, setFileName] = useState(defaultFileName);
+  const [delimiter, setDelimiter] = useState(',');
+  const [encoding, setEncoding] = useState<CsvEncoding>('utf-8');
+
+  const handleExport = () => {
+    exportRows(scope === 'all' ? rows : viewRows, fields, fileName.trim() || 'export', format, { delimiter, encoding });
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-blue-600 rounded-xl flex items-center justify-center">
+              <Download className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Export Data</h2>
+              <p className="text-sm text-gray-600">Download this dataset as a file</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="grid grid-cols-3 gap-3">
+            {FORMATS.map(option => {
+              const Icon = option.icon;
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => setFormat(option.value)}
+                  className={`p-3 rounded-xl border text-left transition-colors ${
+                    format === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <Icon className={`w-5 h-5 mb-1 ${format === option.value ? 'text-blue-600' : 'text-gray-500'}`} />
+                  <p className="font-medium text-gray-900">{option.label}</p>
+                  <p className="text-xs text-gray-500">{option.description}</p>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={scope === 'all'}
+                onChange={() => setScope('all')}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              Full dataset ({rows.length} rows)
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={scope === 'view'}
+                onChange={() => setScope('view')}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              Current view, as filtered and sorted ({viewRows.length} rows)
+            </label>
+          </div>
+
+          {format === 'csv' && (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm text-gray-700">
+                Delimiter
+                <select
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {CSV_DELIMITERS.map(option => (
+                    <option key={option.label} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                Encoding
+                <select
+                  value={encoding}
+                  onChange={(e) => setEncoding(e.target.value as CsvEncoding)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {CSV_ENCODINGS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          <label className="block text-sm text-gray-700">
+            File name
+            <input
+              type="text"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            className="inline-flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
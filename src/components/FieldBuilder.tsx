@@ -1,57 +1,114 @@
-import React, { useState } from 'react';
-import { Plus, X, Edit3, GripVertical, Check, AlertCircle, Upload } from 'lucide-react';
-import { Field } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Plus, X, Edit3, GripVertical, Check, AlertCircle, Upload, ChevronUp, ChevronDown } from 'lucide-react';
+import { ChangeMeta, Field } from '../types';
 import { ExcelUploader } from './ExcelUploader';
+import { TypeConversionPreview } from './TypeConversionPreview';
+import { FieldConfigEditor } from './FieldConfigEditor';
+import { ValidationRulesEditor } from './ValidationRulesEditor';
 import { TableRow } from '../types';
+import { applyConversion, isEmptyValue } from '../utils/convert';
+import { FIELD_TYPES, collectOptions, defaultConfigFor, getTypeLabel, hasOptions } from '../utils/fieldTypes';
+import { buildFormulaPlan, checkFormula, formulaForDisplay, formulaForStorage } from '../utils/formula';
+import { describeRules } from '../utils/validation';
+import { moveItem, useDragReorder } from '../hooks/useDragReorder';
+import { generateId } from '../utils/id';
 
 interface FieldBuilderProps {
   fields: Field[];
-  onFieldsChange: (fields: Field[]) => void;
+  onFieldsChange: (fields: Field[], meta?: ChangeMeta) => void;
+  data?: TableRow[];
+  // Changes schema and rows together, e.g. when a type change converts existing values
+  onSchemaChange?: (fields: Field[], data: TableRow[], meta?: ChangeMeta) => void;
   onDataImport?: (fields: Field[], data: TableRow[]) => void;
+  onImportAsDataset?: (name: string, fields: Field[], data: TableRow[]) => void;
 }
 
-export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChange, onDataImport }) => {
+export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChange, data = [], onSchemaChange, onDataImport, onImportAsDataset }) => {
   const [isAddingField, setIsAddingField] = useState(false);
   const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
   const [showExcelUploader, setShowExcelUploader] = useState(false);
+  const [pendingConversion, setPendingConversion] = useState<{ fieldId: string; type: Field['type'] } | null>(null);
   const [newField, setNewField] = useState<Omit<Field, 'id'>>({
     name: '',
     type: 'text',
     required: false
   });
 
-  const fieldTypes = [
-    { value: 'text', label: 'Text' },
-    { value: 'number', label: 'Number' },
-    { value: 'date', label: 'Date' },
-    { value: 'email', label: 'Email' },
-    { value: 'boolean', label: 'Yes/No' }
-  ];
+  const fieldTypes = FIELD_TYPES;
+  const formulaErrors = useMemo(() => buildFormulaPlan(fields).errors, [fields]);
+  const newFieldError = newField.type === 'formula'
+    ? checkFormula({ ...newField, id: '__new__' }, fields).error
+    : undefined;
 
   const addField = () => {
-    if (newField.name.trim()) {
+    if (newField.name.trim() && !newFieldError) {
       const field: Field = {
-        id: Date.now().toString(),
+        id: generateId('field'),
         ...newField,
         name: newField.name.trim()
       };
-      onFieldsChange([...fields, field]);
+      onFieldsChange([...fields, field], { label: 'Add field' });
       setNewField({ name: '', type: 'text', required: false });
       setIsAddingField(false);
     }
   };
 
   const updateField = (id: string, updatedField: Partial<Field>) => {
-    onFieldsChange(fields.map(field => 
+    // Formulas saved before references were stored by id still name their fields; pin them
+    // to ids while the old name still resolves, so a rename doesn't break them
+    const pinned = updatedField.name === undefined ? fields : fields.map(field =>
+      field.type === 'formula' && field.formula ? { ...field, formula: formulaForStorage(field.formula, fields) } : field
+    );
+    onFieldsChange(pinned.map(field => 
       field.id === id ? { ...field, ...updatedField } : field
-    ));
+    ), { label: 'Edit field', coalesceKey: `field:${id}:${Object.keys(updatedField).join(',')}` });
+  };
+
+  // Fields with existing values get a conversion preview before their type changes
+  const requestTypeChange = (field: Field, type: Field['type']) => {
+    if (type === field.type) {
+      setPendingConversion(null);
+      return;
+    }
+    // Formula values are computed, so there is nothing to convert to or from
+    const isFormulaChange = type === 'formula' || field.type === 'formula';
+    const hasValues = !isFormulaChange && data.some(row => !isEmptyValue(row[field.id]));
+    if (!hasValues || !onSchemaChange) {
+      updateField(field.id, { type, ...defaultConfigFor(type) });
+      return;
+    }
+    setPendingConversion({ fieldId: field.id, type });
+  };
+
+  const applyTypeChange = (onFailure: 'keep' | 'blank') => {
+    if (!pendingConversion || !onSchemaChange) return;
+    const { fieldId, type } = pendingConversion;
+    const converted = applyConversion(data, fieldId, type, onFailure);
+    onSchemaChange(
+      fields.map(field => {
+        if (field.id !== fieldId) return field;
+        const updated = { ...field, ...defaultConfigFor(type), type };
+        // Seed the option list from the values already in the column
+        return hasOptions(type) ? { ...updated, options: collectOptions(converted, fieldId, field.options) } : updated;
+      }),
+      converted,
+      { label: 'Change field type' }
+    );
+    setPendingConversion(null);
     setEditingFieldId(null);
   };
 
   const removeField = (id: string) => {
-    onFieldsChange(fields.filter(field => field.id !== id));
+    onFieldsChange(fields.filter(field => field.id !== id), { label: 'Delete field' });
+  };
+
+  const moveField = (from: number, to: number) => {
+    if (to < 0 || to >= fields.length) return;
+    onFieldsChange(moveItem(fields, from, to), { label: 'Reorder fields' });
   };
 
+  const drag = useDragReorder(fields.map(field => field.id), moveField);
+
   return (
     <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6">
       <div className="flex items-center justify-between mb-6">
@@ -79,13 +136,37 @@ export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChan
       </div>
 
       <div className="space-y-3">
-        {fields.map((field) => (
+        {fields.map((field, index) => (
           <div
             key={field.id}
-            className="group bg-gradient-to-r from-gray-50 to-white border border-gray-200 rounded-xl p-4 hover:shadow-md transition-all duration-200"
+            {...drag.getItemProps(field.id, editingFieldId !== field.id)}
+            className={`group relative bg-gradient-to-r from-gray-50 to-white border border-gray-200 rounded-xl p-4 hover:shadow-md transition-all duration-200 ${
+              drag.draggingId === field.id ? 'opacity-50' : ''
+            }`}
           >
+            {drag.dropSideFor(field.id) && (
+              <div className={`absolute left-2 right-2 h-0.5 bg-blue-500 rounded-full ${
+                drag.dropSideFor(field.id) === 'before' ? '-top-2' : '-bottom-2'
+              }`} />
+            )}
             <div className="flex items-center gap-3">
-              <GripVertical className="w-5 h-5 text-gray-400 cursor-grab group-hover:text-gray-600 transition-colors" />
+              <button
+                type="button"
+                aria-label={`Reorder ${field.name}`}
+                title="Drag to reorder, or use the arrow keys"
+                onKeyDown={(e) => {
+                  if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+                    e.preventDefault();
+                    moveField(index, e.key === 'ArrowUp' ? index - 1 : index + 1);
+                    // Moving the row in the DOM can drop focus; keep it on the handle
+                    const handle = e.currentTarget;
+                    requestAnimationFrame(() => handle.focus());
+                  }
+                }}
+                className="rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <GripVertical className="w-5 h-5 text-gray-400 cursor-grab group-hover:text-gray-600 transition-colors" />
+              </button>
               
               {editingFieldId === field.id ? (
                 <div className="flex-1 flex items-center gap-3">
@@ -96,16 +177,30 @@ export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChan
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
                   <select
-                    value={field.type}
-                    onChange={(e) => updateField(field.id, { type: e.target.value as Field['type'] })}
+                    value={pendingConversion?.fieldId === field.id ? pendingConversion.type : field.type}
+                    onChange={(e) => requestTypeChange(field, e.target.value as Field['type'])}
                     className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
                     {fieldTypes.map(type => (
                       <option key={type.value} value={type.value}>{type.label}</option>
                     ))}
                   </select>
+                  {field.type !== 'formula' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(field.required)}
+                        onChange={(e) => updateField(field.id, { required: e.target.checked })}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Required
+                    </label>
+                  )}
                   <button
-                    onClick={() => setEditingFieldId(null)}
+                    onClick={() => {
+                      setEditingFieldId(null);
+                      setPendingConversion(null);
+                    }}
                     className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
                   >
                     <Check className="w-4 h-4" />
@@ -117,17 +212,60 @@ export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChan
                     <div className="flex items-center gap-2">
                       <span className="font-medium text-gray-900">{field.name}</span>
                       <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full">
-                        {fieldTypes.find(t => t.value === field.type)?.label}
+                        {getTypeLabel(field.type)}
                       </span>
+                      {field.type === 'currency' && (
+                        <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded-full">{field.currency || 'USD'}</span>
+                      )}
+                      {hasOptions(field.type) && (
+                        <span className="text-xs text-gray-500">
+                          {(field.options || []).length} options
+                        </span>
+                      )}
+                      {field.type === 'formula' && (
+                        <code className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded truncate max-w-xs" title={formulaForDisplay(field.formula || '', fields)}>
+                          {formulaForDisplay(field.formula || '', fields) || 'no formula'}
+                        </code>
+                      )}
+                      {formulaErrors[field.id] && (
+                        <span
+                          className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded-full flex items-center gap-1"
+                          title={formulaErrors[field.id]}
+                        >
+                          <AlertCircle className="w-3 h-3" />
+                          {field.formula ? 'Formula error' : 'Needs a formula'}
+                        </span>
+                      )}
                       {field.required && (
                         <span className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded-full flex items-center gap-1">
                           <AlertCircle className="w-3 h-3" />
                           Required
                         </span>
                       )}
+                      {describeRules(field).length > 0 && (
+                        <span className="text-xs text-gray-500">
+                          {describeRules(field).join(' · ')}
+                        </span>
+                      )}
                     </div>
                   </div>
-                  <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => moveField(index, index - 1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${field.name} up`}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveField(index, index + 1)}
+                      disabled={index === fields.length - 1}
+                      aria-label={`Move ${field.name} down`}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={() => setEditingFieldId(field.id)}
                       className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -144,6 +282,30 @@ export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChan
                 </>
               )}
             </div>
+            {editingFieldId === field.id && !pendingConversion && (
+              <div className="mt-3 ml-8 space-y-3 empty:hidden">
+                <FieldConfigEditor
+                  config={field}
+                  onChange={(config) => updateField(field.id, config)}
+                  fieldId={field.id}
+                  fields={fields}
+                />
+                <ValidationRulesEditor
+                  field={field}
+                  onChange={(validation) => updateField(field.id, { validation })}
+                />
+              </div>
+            )}
+            {pendingConversion?.fieldId === field.id && (
+              <TypeConversionPreview
+                field={field}
+                targetType={pendingConversion.type}
+                data={data}
+                getTypeLabel={getTypeLabel}
+                onApply={applyTypeChange}
+                onCancel={() => setPendingConversion(null)}
+              />
+            )}
           </div>
         ))}
 
@@ -160,25 +322,30 @@ export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChan
               />
               <select
                 value={newField.type}
-                onChange={(e) => setNewField({ ...newField, type: e.target.value as Field['type'] })}
+                onChange={(e) => {
+                  const type = e.target.value as Field['type'];
+                  setNewField({ name: newField.name, required: newField.required, type, ...defaultConfigFor(type) });
+                }}
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 {fieldTypes.map(type => (
                   <option key={type.value} value={type.value}>{type.label}</option>
                 ))}
               </select>
-              <label className="flex items-center gap-2 text-sm text-gray-700">
-                <input
-                  type="checkbox"
-                  checked={newField.required}
-                  onChange={(e) => setNewField({ ...newField, required: e.target.checked })}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                Required
-              </label>
+              {newField.type !== 'formula' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={newField.required}
+                    onChange={(e) => setNewField({ ...newField, required: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Required
+                </label>
+              )}
               <button
                 onClick={addField}
-                disabled={!newField.name.trim()}
+                disabled={!newField.name.trim() || Boolean(newFieldError)}
                 className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 <Check className="w-4 h-4" />
@@ -193,6 +360,17 @@ export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChan
                 <X className="w-4 h-4" />
               </button>
             </div>
+            <div className="mt-3 space-y-3 empty:hidden">
+              <FieldConfigEditor
+                config={newField}
+                onChange={(config) => setNewField({ ...newField, ...config })}
+                fields={fields}
+              />
+              <ValidationRulesEditor
+                field={newField}
+                onChange={(validation) => setNewField({ ...newField, validation })}
+              />
+            </div>
           </div>
         )}
       </div>
@@ -210,10 +388,16 @@ export const FieldBuilder: React.FC<FieldBuilderProps> = ({ fields, onFieldsChan
       {/* Excel Uploader Modal */}
       {showExcelUploader && onDataImport && (
         <ExcelUploader
+          existingFields={fields}
+          existingData={data}
           onDataImport={(importedFields, importedData) => {
             onDataImport(importedFields, importedData);
             setShowExcelUploader(false);
           }}
+          onImportAsDataset={onImportAsDataset && ((name, importedFields, importedData) => {
+            onImportAsDataset(name, importedFields, importedData);
+            setShowExcelUploader(false);
+          })}
           onClose={() => setShowExcelUploader(false)}
         />
       )}
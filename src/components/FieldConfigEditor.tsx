@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Field } from '../types';
+import { CURRENCIES, hasOptions } from '../utils/fieldTypes';
+import { TIME_ZONES } from '../utils/dates';
+import { FormulaEditor } from './FormulaEditor';
+
+type FieldConfig = Pick<Field, 'name' | 'type' | 'options' | 'currency' | 'decimals' | 'formula' | 'timeZone'>;
+
+interface FieldConfigEditorProps {
+  config: FieldConfig;
+  onChange: (config: Partial<Field>) => void;
+  // Needed by formulas to resolve references; a new field has no id yet
+  fieldId?: string;
+  fields?: Field[];
+}
+
+const NEW_FIELD_ID = '__new__';
+
+// Type-specific settings shown under a field: option lists, currency code, decimal places, formulas, time zones
+export const FieldConfigEditor: React.FC<FieldConfigEditorProps> = ({ config, onChange, fieldId = NEW_FIELD_ID, fields = [] }) => {
+  const [optionInput, setOptionInput] = useState('');
+  const options = config.options || [];
+
+  const addOption = () => {
+    const option = optionInput.trim();
+    if (option && !options.includes(option)) {
+      onChange({ options: [...options, option] });
+    }
+    setOptionInput('');
+  };
+
+  if (hasOptions(config.type)) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-gray-500">Options:</span>
+        {options.map((option) => (
+          <span
+            key={option}
+            className="inline-flex items-center gap-1 text-xs px-2 py-1 bg-indigo-100 text-indigo-700 rounded-full"
+          >
+            {option}
+            <button
+              onClick={() => onChange({ options: options.filter(o => o !== option) })}
+              className="hover:text-indigo-900"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          placeholder="Add option, press Enter..."
+          value={optionInput}
+          onChange={(e) => setOptionInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addOption();
+            }
+          }}
+          onBlur={addOption}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+    );
+  }
+
+  if (config.type === 'formula') {
+    return (
+      <FormulaEditor
+        field={{ ...config, id: fieldId }}
+        fields={fields}
+        onChange={(formula) => onChange({ formula })}
+      />
+    );
+  }
+
+  if (config.type === 'datetime') {
+    return (
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        Time zone
+        <select
+          value={config.timeZone || ''}
+          onChange={(e) => onChange({ timeZone: e.target.value || undefined })}
+          className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Local time</option>
+          {TIME_ZONES.map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  if (config.type === 'currency' || config.type === 'percent') {
+    return (
+      <div className="flex items-center gap-3">
+        {config.type === 'currency' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Currency
+            <select
+              value={config.currency || 'USD'}
+              onChange={(e) => onChange({ currency: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {CURRENCIES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Decimals
+          <input
+            type="number"
+            min={0}
+            max={6}
+            value={config.decimals ?? (config.type === 'currency' ? 2 : 0)}
+            onChange={(e) => onChange({ decimals: Math.max(0, Math.min(6, parseInt(e.target.value) || 0)) })}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+      </div>
+    );
+  }
+
+  return null;
+};
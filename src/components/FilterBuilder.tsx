@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { ListFilter, Plus, Trash2, X } from 'lucide-react';
+import { Field, FilterCondition, FilterGroup } from '../types';
+import { FormulaPlan } from '../utils/formula';
+import { countActiveConditions, createCondition, createFilterGroup, filterKind } from '../utils/filters';
+import { FilterConditionEditor } from './FilterConditionEditor';
+
+interface FilterBuilderProps {
+  fields: Field[];
+  formulaPlan?: FormulaPlan;
+  query?: FilterGroup;
+  onApply: (query: FilterGroup | undefined) => void;
+  onClose: () => void;
+}
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  fields: Field[];
+  formulaPlan?: FormulaPlan;
+  // Nested groups can't hold further groups, which keeps the builder readable
+  nested?: boolean;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, fields, formulaPlan, nested = false, onChange, onRemove }) => {
+  const updateCondition = (condition: FilterCondition) =>
+    onChange({ ...group, conditions: group.conditions.map(c => (c.id === condition.id ? condition : c)) });
+
+  const changeField = (condition: FilterCondition, fieldId: string) => {
+    const field = fields.find(f => f.id === fieldId);
+    // Operators depend on the field type, so start the condition over
+    if (field) updateCondition({ ...createCondition(field, formulaPlan), id: condition.id });
+  };
+
+  const joinLabel = group.join === 'and' ? 'AND' : 'OR';
+
+  return (
+    <div className={`space-y-2 ${nested ? 'p-3 bg-gray-50 border border-gray-200 rounded-xl' : ''}`}>
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        Match
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+          {(['and', 'or'] as const).map(join => (
+            <button
+              key={join}
+              onClick={() => onChange({ ...group, join })}
+              className={`px-3 py-1 text-xs font-semibold transition-colors ${
+                group.join === join ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {join === 'and' ? 'ALL (AND)' : 'ANY (OR)'}
+            </button>
+          ))}
+        </div>
+        of these conditions
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            title="Remove group"
+            className="ml-auto p-1 text-gray-400 hover:text-red-600 rounded transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((condition, index) => {
+        const field = fields.find(f => f.id === condition.fieldId);
+        return (
+          <div key={condition.id} className="flex items-start gap-2">
+            <span className="w-10 pt-1.5 text-xs font-semibold text-gray-400 text-right">{index > 0 ? joinLabel : ''}</span>
+            <select
+              value={condition.fieldId}
+              onChange={(e) => changeField(condition, e.target.value)}
+              className="w-40 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {!field && <option value={condition.fieldId}>Deleted field</option>}
+              {fields.map(f => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            {field && (
+              <FilterConditionEditor
+                condition={condition}
+                kind={filterKind(field, formulaPlan)}
+                onChange={updateCondition}
+              />
+            )}
+            <button
+              onClick={() => onChange({ ...group, conditions: group.conditions.filter(c => c.id !== condition.id) })}
+              title="Remove condition"
+              className="p-1.5 text-gray-400 hover:text-red-600 rounded transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      {group.groups.map(child => (
+        <div key={child.id} className="flex items-start gap-2">
+          <span className="w-10 pt-3 text-xs font-semibold text-gray-400 text-right">
+            {group.conditions.length > 0 || group.groups[0].id !== child.id ? joinLabel : ''}
+          </span>
+          <div className="flex-1">
+            <GroupEditor
+              group={child}
+              fields={fields}
+              formulaPlan={formulaPlan}
+              nested
+              onChange={(updated) => onChange({ ...group, groups: group.groups.map(g => (g.id === updated.id ? updated : g)) })}
+              onRemove={() => onChange({ ...group, groups: group.groups.filter(g => g.id !== child.id) })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 pl-12">
+        <button
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, createCondition(fields[0], formulaPlan)] })}
+          className="inline-flex items-center gap-1 px-2 py-1 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Condition
+        </button>
+        {!nested && (
+          <button
+            onClick={() => onChange({ ...group, groups: [...group.groups, createFilterGroup(group.join === 'and' ? 'or' : 'and')] })}
+            className="inline-flex items-center gap-1 px-2 py-1 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ fields, formulaPlan, query, onApply, onClose }) => {
+  const [draft, setDraft] = useState<FilterGroup>(() => query ?? createFilterGroup());
+
+  const apply = () => {
+    // An empty query is the same as none
+    const isEmpty = draft.conditions.length === 0 && draft.groups.length === 0;
+    onApply(isEmpty ? undefined : draft);
+    onClose();
+  };
+
+  const activeCount = countActiveConditions({ columns: [], query: draft });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl flex items-center justify-center">
+              <ListFilter className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Filter Query</h2>
+              <p className="text-sm text-gray-600">Combine conditions with AND / OR; column filters still apply</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <GroupEditor group={draft} fields={fields} formulaPlan={formulaPlan} onChange={setDraft} />
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={() => setDraft(createFilterGroup())}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+          >
+            Clear all
+          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={apply}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+            >
+              Apply{activeCount > 0 ? ` (${activeCount})` : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
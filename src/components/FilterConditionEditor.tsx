@@ -0,0 +1,85 @@
+import React from 'react';
+import { FilterCondition } from '../types';
+import { FILTER_OPERATORS, FilterKind, conditionError } from '../utils/filters';
+
+interface FilterConditionEditorProps {
+  condition: FilterCondition;
+  kind: FilterKind;
+  onChange: (condition: FilterCondition) => void;
+  // Stacks the inputs to fit a column header
+  compact?: boolean;
+  // Adds an "Any" choice that removes the condition; `cleared` shows it selected
+  onClear?: () => void;
+  cleared?: boolean;
+}
+
+const inputClass = 'min-w-0 px-2 py-1 text-sm font-normal border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const FilterConditionEditor: React.FC<FilterConditionEditorProps> = ({ condition, kind, onChange, compact = false, onClear, cleared = false }) => {
+  const error = conditionError(condition);
+  const boundType = kind === 'date' ? 'date' : 'number';
+
+  const renderValueInputs = () => {
+    if (cleared) return null;
+    switch (condition.operator) {
+      case 'contains':
+      case 'equals':
+      case 'matches':
+        return (
+          <input
+            type="text"
+            value={condition.value ?? ''}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder={condition.operator === 'matches' ? 'Pattern' : 'Text'}
+            className={`${inputClass} flex-1 ${error ? 'border-red-400' : ''}`}
+          />
+        );
+      case 'between':
+        return (
+          <div className={`flex gap-1 flex-1 ${compact ? 'flex-col' : 'items-center'}`}>
+            <input
+              type={boundType}
+              value={condition.min ?? ''}
+              onChange={(e) => onChange({ ...condition, min: e.target.value })}
+              placeholder="Min"
+              title="From (inclusive)"
+              className={`${inputClass} flex-1`}
+            />
+            {!compact && <span className="text-sm text-gray-500">and</span>}
+            <input
+              type={boundType}
+              value={condition.max ?? ''}
+              onChange={(e) => onChange({ ...condition, max: e.target.value })}
+              placeholder="Max"
+              title="To (inclusive)"
+              className={`${inputClass} flex-1`}
+            />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className={compact ? 'space-y-1' : 'flex-1'}>
+      <div className={`flex gap-2 ${compact ? 'flex-col' : 'items-center'}`}>
+        <select
+          value={cleared ? '' : condition.operator}
+          onChange={(e) => {
+            if (e.target.value === '') onClear?.();
+            else onChange({ ...condition, operator: e.target.value as FilterCondition['operator'] });
+          }}
+          className={inputClass}
+        >
+          {onClear && <option value="">Any</option>}
+          {FILTER_OPERATORS[kind].map(operator => (
+            <option key={operator.value} value={operator.value}>{operator.label}</option>
+          ))}
+        </select>
+        {renderValueInputs()}
+      </div>
+      {error && <p className="text-xs font-normal text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useMemo, useRef } from 'react';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Field } from '../types';
+import { FORMULA_FUNCTIONS, checkFormula, formulaForDisplay, formulaForStorage, referenceFor } from '../utils/formula';
+
+interface FormulaEditorProps {
+  field: Field;
+  fields: Field[];
+  onChange: (formula: string) => void;
+}
+
+const RESULT_LABELS = { number: 'Number', text: 'Text', boolean: 'Yes/No', date: 'Date' };
+
+export const FormulaEditor: React.FC<FormulaEditorProps> = ({ field, fields, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Edited with fields by name, saved with them by id
+  const formula = formulaForDisplay(field.formula || '', fields);
+  const check = useMemo(() => checkFormula(field, fields), [field, fields]);
+  const otherFields = fields.filter(f => f.id !== field.id);
+
+  const change = (text: string) => onChange(formulaForStorage(text, fields));
+
+  const insert = (text: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? formula.length;
+    const end = input?.selectionEnd ?? formula.length;
+    change(formula.slice(0, start) + text + formula.slice(end));
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="e.g. price * quantity"
+        value={formula}
+        onChange={(e) => change(e.target.value)}
+        spellCheck={false}
+        className={`w-full px-3 py-2 font-mono text-sm border rounded-lg focus:ring-2 focus:border-transparent ${
+          formula && check.error ? 'border-red-300 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+        }`}
+      />
+      {formula && check.error ? (
+        <p className="flex items-center gap-1 text-xs text-red-600">
+          <AlertCircle className="w-3 h-3" />
+          {check.error}
+        </p>
+      ) : formula && check.resultType ? (
+        <p className="flex items-center gap-1 text-xs text-green-700">
+          <CheckCircle2 className="w-3 h-3" />
+          Returns {RESULT_LABELS[check.resultType]}
+          {check.dependencies.length > 0 && (
+            <span className="text-gray-500">
+              {' '}· uses {check.dependencies.map(id => fields.find(f => f.id === id)?.name).join(', ')}
+            </span>
+          )}
+        </p>
+      ) : null}
+      {otherFields.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs font-medium text-gray-500">Fields:</span>
+          {otherFields.map(f => (
+            <button
+              key={f.id}
+              onClick={() => insert(referenceFor(f.name))}
+              className="text-xs px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full hover:bg-blue-100 transition-colors"
+            >
+              {f.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-400">
+        Operators + - * / ^ & = &lt;&gt; &lt; &gt;. Functions: {FORMULA_FUNCTIONS.join(', ')}
+      </p>
+    </div>
+  );
+};
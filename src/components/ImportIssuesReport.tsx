@@ -0,0 +1,97 @@
+import React from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { FAILURE_POLICIES, ImportIssue } from '../utils/importer';
+
+interface ImportIssuesReportProps {
+  // Used for the report's file name
+  name: string;
+  issues: ImportIssue[];
+  skippedRows: number;
+  // Only the summary line and download button, for listing several sheets
+  compact?: boolean;
+}
+
+const PREVIEW_ISSUES = 5;
+
+const POLICY_LABELS = Object.fromEntries(FAILURE_POLICIES.map(policy => [policy.value, policy.label]));
+
+const downloadReport = (name: string, issues: ImportIssue[]) => {
+  const sheet = XLSX.utils.json_to_sheet(issues.map(issue => ({
+    ...(issue.sheet !== undefined ? { Sheet: issue.sheet } : {}),
+    Row: issue.row,
+    Column: issue.column,
+    Value: String(issue.value),
+    Reason: issue.reason,
+    Action: POLICY_LABELS[issue.policy]
+  })));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, sheet, 'Errors');
+  XLSX.writeFile(wb, `${name}-import-errors.csv`, { bookType: 'csv' });
+};
+
+export const ImportIssuesReport: React.FC<ImportIssuesReportProps> = ({ name, issues, skippedRows, compact = false }) => {
+  if (issues.length === 0) return null;
+
+  const summary = `${issues.length} value${issues.length === 1 ? '' : 's'} didn't fit their column` +
+    (skippedRows > 0 ? `, ${skippedRows} row${skippedRows === 1 ? '' : 's'} skipped` : '');
+
+  const downloadButton = (
+    <button
+      onClick={() => downloadReport(name, issues)}
+      className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-amber-800 hover:bg-amber-100 rounded-lg transition-colors"
+    >
+      <Download className="w-4 h-4" />
+      Error report
+    </button>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-amber-700">
+        <AlertTriangle className="w-4 h-4" />
+        {summary}
+        {downloadButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-amber-50 rounded-xl">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-amber-900">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <span className="font-medium">{summary}</span>
+        </div>
+        {downloadButton}
+      </div>
+      <table className="mt-3 w-full text-sm">
+        <thead>
+          <tr className="text-left text-amber-900">
+            <th className="py-1 pr-3 font-medium">Row</th>
+            <th className="py-1 pr-3 font-medium">Column</th>
+            <th className="py-1 pr-3 font-medium">Value</th>
+            <th className="py-1 pr-3 font-medium">Reason</th>
+            <th className="py-1 font-medium">Action</th>
+          </tr>
+        </thead>
+        <tbody className="text-amber-800">
+          {issues.slice(0, PREVIEW_ISSUES).map((issue, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-3">{issue.sheet !== undefined ? `${issue.sheet}, row ${issue.row}` : issue.row}</td>
+              <td className="py-1 pr-3">{issue.column}</td>
+              <td className="py-1 pr-3 max-w-[10rem] truncate">{String(issue.value)}</td>
+              <td className="py-1 pr-3">{issue.reason}</td>
+              <td className="py-1">{POLICY_LABELS[issue.policy]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {issues.length > PREVIEW_ISSUES && (
+        <p className="mt-2 text-sm text-amber-700">
+          ... and {issues.length - PREVIEW_ISSUES} more in the error report
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React from 'react';
+import { GridSample, LayoutRowRole, SheetLayout, rowRole } from '../utils/importer';
+
+interface ImportLayoutControlsProps {
+  // Rows from the top and bottom of the sheet; totals usually sit at the end
+  sample: GridSample;
+  layout: SheetLayout;
+  onChange: (layout: SheetLayout) => void;
+}
+
+const MAX_CELLS = 6;
+
+const ROLE_STYLES: Record<LayoutRowRole, string> = {
+  header: 'bg-blue-50 text-blue-900 font-medium',
+  data: 'text-gray-700',
+  skipped: 'text-gray-400',
+  dropped: 'text-red-400'
+};
+
+const ROLE_LABELS: Record<LayoutRowRole, string> = {
+  header: 'Header',
+  data: '',
+  skipped: 'Skipped',
+  dropped: 'Dropped'
+};
+
+const rowPreview = (row: unknown[] = []) => {
+  const cells = Array.from(row, cell => String(cell ?? '').trim()).slice(0, MAX_CELLS);
+  return cells.some(Boolean) ? cells.join(' │ ') : '(empty)';
+};
+
+const numberInput = (value: number, onChange: (value: number) => void, min: number, max: number) => (
+  <input
+    type="number"
+    min={min}
+    max={max}
+    value={value}
+    onChange={(e) => onChange(Math.max(min, Math.min(max, parseInt(e.target.value) || min)))}
+    className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+  />
+);
+
+// Picks which rows of a sheet hold the headers and which are data
+export const ImportLayoutControls: React.FC<ImportLayoutControlsProps> = ({ sample, layout, onChange }) => {
+  const { head, tail, rowCount, lastRow } = sample;
+  const update = (changes: Partial<SheetLayout>) => onChange({ ...layout, ...changes });
+
+  const tailStart = rowCount - tail.length;
+  const shownRows = [
+    ...head.map((row, index) => ({ row, index })),
+    ...(tail.length > 0 ? [null] : []),
+    ...tail.map((row, i) => ({ row, index: tailStart + i }))
+  ];
+  const hiddenCount = tailStart - head.length;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-gray-900">Sheet Layout:</h4>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Header row
+          {numberInput(layout.headerRow + 1, value => update({ headerRow: value - 1 }), 1, Math.max(1, rowCount - 1))}
+        </label>
+        <label className="flex items-center gap-2">
+          Header lines
+          {numberInput(layout.headerRows, value => update({ headerRows: value }), 1, 3)}
+        </label>
+        <label className="flex items-center gap-2">
+          Skip last rows
+          {numberInput(layout.skipTrailing, value => update({ skipTrailing: value }), 0, Math.max(0, rowCount - 1))}
+        </label>
+        <label className="flex items-center gap-2">
+          Drop rows containing
+          <input
+            type="text"
+            value={layout.dropText}
+            onChange={(e) => update({ dropText: e.target.value })}
+            placeholder="e.g. Total"
+            className="w-32 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden text-xs font-mono">
+        {shownRows.map(shown => {
+          if (shown === null) {
+            return (
+              <div key="gap" className="px-3 py-1 text-gray-400 bg-gray-50">
+                ⋯ {hiddenCount.toLocaleString()} more rows
+              </div>
+            );
+          }
+          const role = rowRole(shown.row, shown.index, lastRow, layout);
+          return (
+            <button
+              key={shown.index}
+              onClick={() => update({ headerRow: shown.index })}
+              title="Use as header row"
+              className={`w-full flex items-center gap-3 px-3 py-1 text-left border-b border-gray-100 last:border-b-0 hover:bg-gray-50 ${ROLE_STYLES[role]}`}
+            >
+              <span className="min-w-[1.5rem] text-right text-gray-400">{shown.index + 1}</span>
+              <span className={`flex-1 truncate ${role === 'skipped' || role === 'dropped' ? 'line-through' : ''}`}>
+                {rowPreview(shown.row)}
+              </span>
+              {ROLE_LABELS[role] && <span className="text-gray-500">{ROLE_LABELS[role]}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useRef, useState } from 'react';
+import { FileText, X, Download, Eye } from 'lucide-react';
+import { ChartConfig, Field, TableRow } from '../types';
+import { FormulaPlan, isNumericField } from '../utils/formula';
+import { buildChartSvg } from '../utils/chartExport';
+import { chartLegend } from '../utils/charts';
+import { downloadBlob, safeFileName } from '../utils/exporter';
+import { ReportContent, buildReportHtml, summarizeField } from '../utils/report';
+import { ChartView } from './ChartView';
+
+interface ReportBuilderProps {
+  datasetName: string;
+  fields: Field[];
+  // Rows with formula values already computed
+  data: TableRow[];
+  // The rows the table filter keeps, for charts set to use it
+  filteredData?: TableRow[];
+  formulaPlan: FormulaPlan;
+  charts: ChartConfig[];
+  onClose: () => void;
+}
+
+// Size charts are drawn at for the report; the file scales them down to fit the page
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 400;
+
+export const ReportBuilder: React.FC<ReportBuilderProps> = ({ datasetName, fields, data, filteredData = data, formulaPlan, charts, onClose }) => {
+  const chartsRef = useRef<HTMLDivElement>(null);
+  const usableCharts = charts.filter(chart => chart.yAxis.length > 0);
+  const [title, setTitle] = useState(datasetName);
+  const [notes, setNotes] = useState('');
+  const [chartIds, setChartIds] = useState<string[]>(() => usableCharts.map(chart => chart.id));
+  const [includeSummary, setIncludeSummary] = useState(true);
+  const [includeTable, setIncludeTable] = useState(true);
+  const [tableRows, setTableRows] = useState(25);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedCharts = usableCharts.filter(chart => chartIds.includes(chart.id));
+
+  const chartData = (chart: ChartConfig) => (chart.filtered ? filteredData : data);
+
+  const toggleChart = (id: string) => {
+    setChartIds(prev => prev.includes(id) ? prev.filter(chartId => chartId !== id) : [...prev, id]);
+  };
+
+  // Charts are drawn off screen below, then captured as SVG markup
+  const buildHtml = () => {
+    const content: ReportContent = {
+      title: title.trim() || datasetName,
+      notes,
+      charts: selectedCharts.map(chart => {
+        const svg = chartsRef.current?.querySelector<SVGSVGElement>(`[data-chart-id="${chart.id}"] .recharts-wrapper > svg`);
+        if (!svg) throw new Error(`Chart "${chart.title || 'Untitled chart'}" could not be drawn`);
+        return { title: chart.title || '', svg: buildChartSvg(svg, chart.title, chartLegend(chart, fields, chartData(chart))).markup };
+      }),
+      summaries: includeSummary ? fields.map(field => summarizeField(field, data, isNumericField(field, formulaPlan))) : [],
+      table: includeTable ? { fields, rows: data.slice(0, tableRows), totalRows: data.length } : undefined
+    };
+    return buildReportHtml(content);
+  };
+
+  const withReport = (action: (blob: Blob) => void) => {
+    try {
+      action(new Blob([buildHtml()], { type: 'text/html' }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The report could not be built');
+    }
+  };
+
+  const preview = () => withReport(blob => {
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank');
+    // The new tab has loaded the page by the time this runs
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  });
+
+  const download = () => withReport(blob => downloadBlob(blob, `${safeFileName(title, 'report')}.html`));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-pink-600 rounded-xl flex items-center justify-center">
+              <FileText className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Build Report</h2>
+              <p className="text-sm text-gray-600">One HTML file that opens offline and prints to PDF</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <label className="block text-sm font-medium text-gray-700">
+            Title
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </label>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Notes
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              placeholder="Context, findings, next steps... Leave a blank line between paragraphs."
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </label>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Charts</p>
+            {usableCharts.length === 0 ? (
+              <p className="text-sm text-gray-500">No charts with data fields yet</p>
+            ) : (
+              <div className="space-y-1">
+                {usableCharts.map(chart => (
+                  <label key={chart.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={chartIds.includes(chart.id)}
+                      onChange={() => toggleChart(chart.id)}
+                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    {chart.title || 'Untitled chart'}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeSummary}
+                onChange={(e) => setIncludeSummary(e.target.checked)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              Summary statistics for each field
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeTable}
+                onChange={(e) => setIncludeTable(e.target.checked)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              Data excerpt, first
+              <input
+                type="number"
+                min={1}
+                value={tableRows}
+                onChange={(e) => setTableRows(Math.max(1, parseInt(e.target.value) || 1))}
+                disabled={!includeTable}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50"
+              />
+              of {data.length} rows
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={preview}
+            className="inline-flex items-center gap-2 border border-purple-300 text-purple-700 hover:bg-purple-50 font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            <Eye className="w-4 h-4" />
+            Preview
+          </button>
+          <button
+            onClick={download}
+            className="inline-flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download HTML
+          </button>
+        </div>
+      </div>
+
+      {/* Off screen rather than hidden, so the charts are laid out and styled for capture */}
+      <div ref={chartsRef} aria-hidden className="fixed top-0 -left-[10000px]">
+        {selectedCharts.map(chart => (
+          <div key={chart.id} data-chart-id={chart.id} style={{ width: CHART_WIDTH }}>
+            <ChartView config={chart} fields={fields} data={chartData(chart)} width={CHART_WIDTH} height={CHART_HEIGHT} animate={false} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
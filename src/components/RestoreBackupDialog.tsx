@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { ArchiveRestore, AlertCircle, Upload, X } from 'lucide-react';
+import { BACKUP_EXTENSION, RestoreMode, WorkspaceBackup, parseBackup } from '../utils/backup';
+
+interface RestoreBackupDialogProps {
+  // Number of datasets a replace would remove
+  currentDatasetCount: number;
+  onRestore: (backup: WorkspaceBackup, mode: RestoreMode) => void;
+  onClose: () => void;
+}
+
+export const RestoreBackupDialog: React.FC<RestoreBackupDialogProps> = ({ currentDatasetCount, onRestore, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setBackup(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The backup could not be read');
+    }
+  };
+
+  const restore = (mode: RestoreMode) => {
+    if (!backup) return;
+    onRestore(backup, mode);
+    onClose();
+  };
+
+  const rowCount = backup?.datasets.reduce((sum, dataset) => sum + dataset.data.length, 0) ?? 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl flex items-center justify-center">
+              <ArchiveRestore className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Restore Backup</h2>
+              <p className="text-sm text-gray-600">Bring back datasets from a {BACKUP_EXTENSION} file</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 hover:border-blue-400 hover:bg-blue-50 rounded-xl text-gray-700 transition-colors"
+          >
+            <Upload className="w-5 h-5" />
+            {fileName || 'Choose a backup file'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+
+          {error && (
+            <div className="p-4 bg-red-50 rounded-xl flex items-center gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {backup && (
+            <div className="p-4 bg-gray-50 rounded-xl text-sm text-gray-700 space-y-1">
+              <p className="font-medium text-gray-900">
+                {backup.datasets.length} {backup.datasets.length === 1 ? 'dataset' : 'datasets'} · {rowCount} rows
+              </p>
+              {backup.exportedAt && <p>Backed up {new Date(backup.exportedAt).toLocaleString()}</p>}
+              <ul className="text-gray-600">
+                {backup.datasets.map(dataset => (
+                  <li key={dataset.id} className="truncate">• {dataset.name}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 space-y-3">
+          <button
+            onClick={() => restore('merge')}
+            disabled={!backup}
+            className="w-full text-left p-3 rounded-xl border border-gray-200 hover:border-blue-400 hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:border-gray-200"
+          >
+            <p className="font-medium text-gray-900">Merge with this workspace</p>
+            <p className="text-sm text-gray-600">Adds the backed-up datasets; ones that differ from yours come in as copies</p>
+          </button>
+          <button
+            onClick={() => restore('replace')}
+            disabled={!backup}
+            className="w-full text-left p-3 rounded-xl border border-red-200 hover:border-red-400 hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:border-red-200"
+          >
+            <p className="font-medium text-red-700">Replace this workspace</p>
+            <p className="text-sm text-gray-600">
+              Removes your {currentDatasetCount} current {currentDatasetCount === 1 ? 'dataset' : 'datasets'} and restores the backup exactly
+            </p>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React from 'react';
+import { FileSpreadsheet, Layers, Copy } from 'lucide-react';
+import { SheetSummary } from '../utils/importer';
+
+interface SheetPickerProps {
+  sheets: SheetSummary[];
+  selected: string[];
+  onToggle: (name: string) => void;
+  mode: 'separate' | 'append';
+  onModeChange: (mode: 'separate' | 'append') => void;
+  // Appending is only offered when every selected sheet has the same headers
+  canAppend: boolean;
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+const MAX_HEADER_CHIPS = 6;
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({
+  sheets,
+  selected,
+  onToggle,
+  mode,
+  onModeChange,
+  canAppend,
+  onBack,
+  onContinue
+}) => {
+  const multiple = selected.length > 1;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Choose sheets to import</h3>
+        <p className="text-sm text-gray-600">This workbook has {sheets.length} sheets. Select one or more.</p>
+      </div>
+
+      <div className="space-y-2">
+        {sheets.map(sheet => {
+          const isSelected = selected.includes(sheet.name);
+          const isEmpty = sheet.rowCount === 0;
+          return (
+            <label
+              key={sheet.name}
+              className={`flex items-start gap-3 p-3 rounded-xl border transition-colors ${
+                isEmpty
+                  ? 'border-gray-100 bg-gray-50 opacity-60 cursor-not-allowed'
+                  : isSelected
+                    ? 'border-blue-300 bg-blue-50 cursor-pointer'
+                    : 'border-gray-200 hover:border-gray-300 cursor-pointer'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={isSelected}
+                disabled={isEmpty}
+                onChange={() => onToggle(sheet.name)}
+                className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <FileSpreadsheet className="w-4 h-4 text-green-600" />
+                  <span className="font-medium text-gray-900">{sheet.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {isEmpty ? 'No data' : `${sheet.rowCount} ${sheet.rowCount === 1 ? 'row' : 'rows'}`}
+                  </span>
+                </div>
+                {sheet.headers.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {sheet.headers.slice(0, MAX_HEADER_CHIPS).map((header, index) => (
+                      <span key={index} className="text-xs px-2 py-0.5 bg-white border border-gray-200 text-gray-600 rounded-full">
+                        {header || `Column ${index + 1}`}
+                      </span>
+                    ))}
+                    {sheet.headers.length > MAX_HEADER_CHIPS && (
+                      <span className="text-xs text-gray-500">+{sheet.headers.length - MAX_HEADER_CHIPS} more</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      {multiple && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <button
+            onClick={() => onModeChange('separate')}
+            className={`flex items-start gap-3 p-3 rounded-xl border text-left transition-colors ${
+              mode === 'separate' ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <Copy className="w-5 h-5 text-blue-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">Separate datasets</p>
+              <p className="text-sm text-gray-600">Each sheet becomes its own dataset</p>
+            </div>
+          </button>
+          <button
+            onClick={() => canAppend && onModeChange('append')}
+            disabled={!canAppend}
+            className={`flex items-start gap-3 p-3 rounded-xl border text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              mode === 'append' && canAppend ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <Layers className="w-5 h-5 text-purple-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">Append into one</p>
+              <p className="text-sm text-gray-600">
+                {canAppend ? 'Stack rows from all sheets into a single dataset' : 'Only available when the headers match'}
+              </p>
+            </div>
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors"
+        >
+          ← Choose Another File
+        </button>
+        <button
+          onClick={onContinue}
+          disabled={selected.length === 0}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Preview {multiple ? `${selected.length} Sheets` : 'Sheet'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { AlertCircle, HardDrive, X } from 'lucide-react';
+import { StorageStatus } from '../hooks/useDatasets';
+import { formatBytes } from '../utils/storage';
+
+interface StorageStatusBannerProps {
+  status: StorageStatus;
+  onDismiss: () => void;
+}
+
+export const StorageStatusBanner: React.FC<StorageStatusBannerProps> = ({ status, onDismiss }) => {
+  if (!status.error) return null;
+
+  const { usage } = status;
+  const percentUsed = usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : null;
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-2xl p-4 flex items-start gap-3">
+      <AlertCircle className="w-6 h-6 text-red-600 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="font-medium text-red-900">{status.isQuotaExceeded ? 'Storage full' : 'Storage error'}</p>
+        <p className="text-sm text-red-700">{status.error}</p>
+        {status.isQuotaExceeded && (
+          <p className="text-sm text-red-700 mt-1">
+            Delete datasets you no longer need, or remove rows, to free up space.
+          </p>
+        )}
+        {usage && percentUsed !== null && (
+          <div className="mt-3 max-w-md">
+            <div className="flex items-center justify-between text-xs text-red-700 mb-1">
+              <span className="flex items-center gap-1">
+                <HardDrive className="w-3 h-3" />
+                {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+              </span>
+              <span>{percentUsed.toFixed(0)}%</span>
+            </div>
+            <div className="h-2 bg-red-100 rounded-full overflow-hidden">
+              <div className="h-full bg-red-500 rounded-full" style={{ width: `${percentUsed}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+      <button
+        onClick={onDismiss}
+        className="p-1 text-red-400 hover:text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { ArrowRight, CheckCircle, AlertCircle } from 'lucide-react';
+import { Field, TableRow } from '../types';
+import { previewConversion } from '../utils/convert';
+
+const MAX_LISTED_FAILURES = 8;
+
+interface TypeConversionPreviewProps {
+  field: Field;
+  targetType: Field['type'];
+  data: TableRow[];
+  getTypeLabel: (type: Field['type']) => string;
+  onApply: (onFailure: 'keep' | 'blank') => void;
+  onCancel: () => void;
+}
+
+export const TypeConversionPreview: React.FC<TypeConversionPreviewProps> = ({
+  field,
+  targetType,
+  data,
+  getTypeLabel,
+  onApply,
+  onCancel
+}) => {
+  const preview = useMemo(() => previewConversion(data, field.id, targetType), [data, field.id, targetType]);
+  const { converted, empty, failures } = preview;
+
+  return (
+    <div className="mt-4 p-4 bg-white border border-blue-200 rounded-xl">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-900 mb-3">
+        Change type
+        <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs">{getTypeLabel(field.type)}</span>
+        <ArrowRight className="w-4 h-4 text-gray-400" />
+        <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs">{getTypeLabel(targetType)}</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        <div className="p-3 bg-green-50 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <div>
+            <p className="text-lg font-semibold text-green-900">{converted}</p>
+            <p className="text-xs text-green-700">convert cleanly</p>
+          </div>
+        </div>
+        <div className={`p-3 rounded-lg flex items-center gap-2 ${failures.length > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+          <AlertCircle className={`w-5 h-5 ${failures.length > 0 ? 'text-red-600' : 'text-gray-400'}`} />
+          <div>
+            <p className={`text-lg font-semibold ${failures.length > 0 ? 'text-red-900' : 'text-gray-700'}`}>{failures.length}</p>
+            <p className={`text-xs ${failures.length > 0 ? 'text-red-700' : 'text-gray-500'}`}>can't be converted</p>
+          </div>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-lg font-semibold text-gray-700">{empty}</p>
+          <p className="text-xs text-gray-500">empty, left blank</p>
+        </div>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-gray-900 mb-2">Rows that would fail:</p>
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Row</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Current value</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {failures.slice(0, MAX_LISTED_FAILURES).map((failure) => (
+                  <tr key={failure.rowId} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-500">#{failure.rowIndex + 1}</td>
+                    <td className="px-3 py-2 text-gray-900 font-mono">{String(failure.value)}</td>
+                    <td className="px-3 py-2 text-red-600">{failure.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {failures.length > MAX_LISTED_FAILURES && (
+            <p className="text-xs text-gray-500 mt-2">... and {failures.length - MAX_LISTED_FAILURES} more rows</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        {failures.length > 0 && (
+          <button
+            onClick={() => onApply('blank')}
+            className="px-4 py-2 text-sm border border-red-300 text-red-700 hover:bg-red-50 font-medium rounded-lg transition-colors"
+          >
+            Apply & Blank Failures
+          </button>
+        )}
+        <button
+          onClick={() => onApply('keep')}
+          className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
+        >
+          {failures.length > 0 ? 'Apply & Keep Failures' : 'Apply'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Field, ValidationRules } from '../types';
+import { compilePattern, rulesForType } from '../utils/validation';
+
+interface ValidationRulesEditorProps {
+  field: Pick<Field, 'type' | 'validation'>;
+  onChange: (validation: ValidationRules) => void;
+}
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const ValidationRulesEditor: React.FC<ValidationRulesEditorProps> = ({ field, onChange }) => {
+  const applicable = rulesForType(field.type);
+  const rules = field.validation || {};
+
+  if (applicable.length === 0) return null;
+
+  const setRule = <K extends keyof ValidationRules>(key: K, value: ValidationRules[K]) => {
+    const next = { ...rules, [key]: value };
+    if (value === undefined || value === '' || value === false) delete next[key];
+    onChange(next);
+  };
+
+  const numberInput = (key: 'min' | 'max' | 'minLength' | 'maxLength', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min={key === 'minLength' || key === 'maxLength' ? 0 : undefined}
+        value={rules[key] ?? ''}
+        onChange={(e) => setRule(key, e.target.value === '' ? undefined : Number(e.target.value))}
+        className={`w-20 ${inputClass}`}
+      />
+    </label>
+  );
+
+  const dateInput = (key: 'minDate' | 'maxDate', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      {label}
+      <input
+        type="date"
+        value={rules[key] ?? ''}
+        onChange={(e) => setRule(key, e.target.value || undefined)}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  const patternIsValid = !rules.pattern || compilePattern(rules.pattern) !== null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="text-xs font-medium text-gray-500">Validation:</span>
+      {applicable.includes('min') && numberInput('min', 'Min')}
+      {applicable.includes('max') && numberInput('max', 'Max')}
+      {applicable.includes('minLength') && numberInput('minLength', 'Min length')}
+      {applicable.includes('maxLength') && numberInput('maxLength', 'Max length')}
+      {applicable.includes('minDate') && dateInput('minDate', 'From')}
+      {applicable.includes('maxDate') && dateInput('maxDate', 'Until')}
+      {applicable.includes('pattern') && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Pattern
+          <input
+            type="text"
+            placeholder="e.g. ^[A-Z]{3}-\d+$"
+            value={rules.pattern ?? ''}
+            onChange={(e) => setRule('pattern', e.target.value || undefined)}
+            spellCheck={false}
+            title={patternIsValid ? undefined : 'Not a valid regular expression'}
+            className={`w-44 font-mono ${inputClass} ${patternIsValid ? '' : 'border-red-300 focus:ring-red-500'}`}
+          />
+        </label>
+      )}
+      {applicable.includes('unique') && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={Boolean(rules.unique)}
+            onChange={(e) => setRule('unique', e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Unique
+        </label>
+      )}
+    </div>
+  );
+};
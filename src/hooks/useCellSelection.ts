@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { CellPosition, CellRange, rangeBetween } from '../utils/clipboard';
+
+const MOVES: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1]
+};
+
+/**
+ * Spreadsheet-style cell selection: click a cell to focus it, shift-click or
+ * shift+arrows to extend a range. Spread getCellProps(row, col) onto each
+ * cell inside the element holding `containerRef`.
+ */
+export const useCellSelection = (rowCount: number, colCount: number) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [anchor, setAnchor] = useState<CellPosition | null>(null);
+  const [focus, setFocus] = useState<CellPosition | null>(null);
+
+  // Rows can be deleted under the selection; ignore it once it points past the table
+  const valid = (cell: CellPosition | null): cell is CellPosition =>
+    cell !== null && cell.row < rowCount && cell.col < colCount;
+  const active = valid(anchor) && valid(focus);
+  const range: CellRange | null = active ? rangeBetween(anchor, focus) : null;
+
+  const focusCell = (cell: CellPosition) => {
+    containerRef.current
+      ?.querySelector<HTMLElement>(`[data-cell="${cell.row}:${cell.col}"]`)
+      ?.focus();
+  };
+
+  const select = (cell: CellPosition, extend: boolean) => {
+    if (!extend || !active) setAnchor(cell);
+    setFocus(cell);
+  };
+
+  const clear = () => {
+    setAnchor(null);
+    setFocus(null);
+  };
+
+  const isSelected = (row: number, col: number) =>
+    range !== null && row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+  const getCellProps = (row: number, col: number) => ({
+    'data-cell': `${row}:${col}`,
+    // One cell is reachable with Tab; arrows move between the rest
+    tabIndex: (active ? focus.row === row && focus.col === col : row === 0 && col === 0) ? 0 : -1,
+    onMouseDown: (e: React.MouseEvent) => {
+      // Leave clicks on links and buttons inside the cell alone
+      if ((e.target as HTMLElement).closest('a, button, input, select')) return;
+      select({ row, col }, e.shiftKey);
+    },
+    onFocus: () => {
+      if (!active) select({ row, col }, false);
+    },
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        clear();
+        (e.currentTarget as HTMLElement).blur();
+        return;
+      }
+      const move = MOVES[e.key];
+      if (!move) return;
+      e.preventDefault();
+      const next = {
+        row: Math.max(0, Math.min(rowCount - 1, row + move[0])),
+        col: Math.max(0, Math.min(colCount - 1, col + move[1]))
+      };
+      select(next, e.shiftKey);
+      focusCell(next);
+    }
+  });
+
+  return {
+    containerRef,
+    range,
+    // The cell pastes start from: the top-left of the selection
+    origin: range ? { row: range.top, col: range.left } : null,
+    isSelected,
+    clear,
+    getCellProps
+  };
+};
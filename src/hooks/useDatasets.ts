@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Dataset, Field, TableRow } from '../types';
+import { createDataset, duplicateDataset as cloneDataset, uniqueDatasetName } from '../utils/datasets';
+import { migrateDataset, needsMigration } from '../utils/migrations';
+import { RestoreMode, WorkspaceBackup, mergeDatasets } from '../utils/backup';
+import {
+  StorageQuotaError,
+  StorageUsage,
+  WorkspaceSnapshot,
+  WorkspaceStorage,
+  diffWorkspace,
+  hasChanges,
+  openWorkspaceStorage
+} from '../utils/storage';
+
+// Coalesces bursts of edits (typing in a cell) into a single write
+const SAVE_DELAY_MS = 400;
+
+type DatasetPatch = Partial<Omit<Dataset, 'id' | 'createdAt' | 'updatedAt'>>;
+
+export interface StorageStatus {
+  usage: StorageUsage | null;
+  error: string | null;
+  isQuotaExceeded: boolean;
+}
+
+export const useDatasets = (enabled: boolean) => {
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus>({ usage: null, error: null, isQuotaExceeded: false });
+
+  const storageRef = useRef<WorkspaceStorage | null>(null);
+  // What storage currently holds; diffs are computed against this
+  const persistedRef = useRef<WorkspaceSnapshot | null>(null);
+  const latestRef = useRef<WorkspaceSnapshot>({ datasets: [], activeDatasetId: null });
+  const isSavingRef = useRef(false);
+  const saveTimerRef = useRef<number | null>(null);
+
+  latestRef.current = { datasets, activeDatasetId };
+
+  const refreshUsage = useCallback(async () => {
+    const usage = await storageRef.current?.estimateUsage().catch(() => null);
+    setStorageStatus(prev => ({ ...prev, usage: usage ?? prev.usage }));
+  }, []);
+
+  const flush = useCallback(async () => {
+    const storage = storageRef.current;
+    const persisted = persistedRef.current;
+    if (!storage || !persisted || isSavingRef.current) return;
+
+    const next = latestRef.current;
+    const changes = diffWorkspace(persisted, next);
+    if (!hasChanges(changes)) return;
+
+    isSavingRef.current = true;
+    try {
+      await storage.applyChanges(changes);
+      persistedRef.current = next;
+      setStorageStatus(prev => ({ ...prev, error: null, isQuotaExceeded: false }));
+    } catch (error) {
+      // persistedRef is left alone so the next save retries everything still pending
+      console.error('Error saving workspace:', error);
+      setStorageStatus(prev => ({
+        ...prev,
+        error: error instanceof StorageQuotaError
+          ? 'Browser storage is full. Your latest changes are only kept in this tab until space is freed.'
+          : 'Your latest changes could not be saved.',
+        isQuotaExceeded: error instanceof StorageQuotaError
+      }));
+    } finally {
+      isSavingRef.current = false;
+    }
+
+    refreshUsage();
+    if (latestRef.current !== next) {
+      saveTimerRef.current = window.setTimeout(flush, SAVE_DELAY_MS);
+    }
+  }, [refreshUsage]);
+
+  // Load the workspace from storage once the user is authenticated
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    openWorkspaceStorage()
+      .then(async storage => {
+        const snapshot = await storage.load();
+        if (cancelled) return;
+
+        storageRef.current = storage;
+        persistedRef.current = snapshot;
+        // Migrated datasets differ from what storage holds, so the first save rewrites them
+        const migrated = snapshot.datasets.map(dataset => needsMigration(dataset) ? migrateDataset(dataset) : dataset);
+        const loaded = migrated.length > 0 ? migrated : [createDataset('My Dataset')];
+        setDatasets(loaded);
+        setActiveDatasetId(loaded.some(d => d.id === snapshot.activeDatasetId) ? snapshot.activeDatasetId : loaded[0].id);
+        setIsLoaded(true);
+        refreshUsage();
+      })
+      .catch(error => {
+        console.error('Error loading workspace:', error);
+        setStorageStatus(prev => ({ ...prev, error: 'Your saved datasets could not be loaded.' }));
+        const fallback = createDataset('My Dataset');
+        setDatasets([fallback]);
+        setActiveDatasetId(fallback.id);
+        setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, refreshUsage]);
+
+  useEffect(() => {
+    if (!enabled || !isLoaded) return;
+    if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(flush, SAVE_DELAY_MS);
+  }, [datasets, activeDatasetId, enabled, isLoaded, flush]);
+
+  // Don't lose the last debounced edit when the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [flush]);
+
+  const updateDataset = useCallback((id: string, patch: DatasetPatch) => {
+    setDatasets(prev => prev.map(dataset =>
+      dataset.id === id ? { ...dataset, ...patch, updatedAt: new Date().toISOString() } : dataset
+    ));
+  }, []);
+
+  const addDataset = (name: string, fields: Field[] = [], data: TableRow[] = []) => {
+    const dataset = createDataset(uniqueDatasetName(name, datasets.map(d => d.name)), fields, data);
+    setDatasets(prev => [...prev, dataset]);
+    setActiveDatasetId(dataset.id);
+    return dataset;
+  };
+
+  const renameDataset = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateDataset(id, { name: uniqueDatasetName(trimmed, datasets.filter(d => d.id !== id).map(d => d.name)) });
+  };
+
+  const duplicateDataset = (id: string) => {
+    const source = datasets.find(d => d.id === id);
+    if (!source) return;
+    const copy = cloneDataset(source, datasets.map(d => d.name));
+    setDatasets(prev => [...prev, copy]);
+    setActiveDatasetId(copy.id);
+  };
+
+  const deleteDataset = (id: string) => {
+    const remaining = datasets.filter(d => d.id !== id);
+    // Always keep at least one dataset around so the app has something to show
+    const next = remaining.length > 0 ? remaining : [createDataset('My Dataset')];
+    setDatasets(next);
+    if (activeDatasetId === id || remaining.length === 0) {
+      setActiveDatasetId(next[0].id);
+    }
+  };
+
+  // Replacing keeps the backup's active dataset; merging stays on the current one
+  const restoreWorkspace = (backup: WorkspaceBackup, mode: RestoreMode) => {
+    if (mode === 'merge') {
+      setDatasets(mergeDatasets(datasets, backup.datasets));
+      return;
+    }
+    const { activeDatasetId: restoredActiveId } = backup.settings;
+    setDatasets(backup.datasets);
+    setActiveDatasetId(backup.datasets.some(d => d.id === restoredActiveId) ? restoredActiveId : backup.datasets[0].id);
+  };
+
+  const dismissStorageError = () => {
+    setStorageStatus(prev => ({ ...prev, error: null }));
+  };
+
+  const activeDataset = datasets.find(d => d.id === activeDatasetId) || null;
+
+  return {
+    datasets,
+    activeDataset,
+    isLoaded,
+    storageStatus,
+    dismissStorageError,
+    selectDataset: setActiveDatasetId,
+    addDataset,
+    updateDataset,
+    renameDataset,
+    duplicateDataset,
+    deleteDataset,
+    restoreWorkspace
+  };
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+
+type DropSide = 'before' | 'after';
+
+// Returns a copy of `items` with the item at `from` moved to index `to`
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+};
+
+/**
+ * Native HTML5 drag-and-drop for reordering a list of items by id. Spread
+ * getItemProps(id) onto each draggable element; drops from other lists or
+ * from outside the page are ignored.
+ */
+export const useDragReorder = (
+  ids: string[],
+  onMove: (from: number, to: number) => void,
+  axis: 'vertical' | 'horizontal' = 'vertical'
+) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; side: DropSide } | null>(null);
+
+  const reset = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const getItemProps = (id: string, enabled = true) => ({
+    draggable: enabled,
+    onDragStart: (e: React.DragEvent<HTMLElement>) => {
+      if (!enabled) return;
+      e.dataTransfer.effectAllowed = 'move';
+      // Firefox won't start a drag without some data
+      e.dataTransfer.setData('text/plain', id);
+      setDraggingId(id);
+    },
+    onDragOver: (e: React.DragEvent<HTMLElement>) => {
+      if (!draggingId) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      const rect = e.currentTarget.getBoundingClientRect();
+      const side: DropSide = axis === 'vertical'
+        ? (e.clientY < rect.top + rect.height / 2 ? 'before' : 'after')
+        : (e.clientX < rect.left + rect.width / 2 ? 'before' : 'after');
+      if (dropTarget?.id !== id || dropTarget.side !== side) setDropTarget({ id, side });
+    },
+    onDrop: (e: React.DragEvent<HTMLElement>) => {
+      if (!draggingId || !dropTarget) return;
+      e.preventDefault();
+      const from = ids.indexOf(draggingId);
+      const insertAt = ids.indexOf(dropTarget.id) + (dropTarget.side === 'after' ? 1 : 0);
+      // Removing the dragged item first shifts everything after it up by one
+      const to = from < insertAt ? insertAt - 1 : insertAt;
+      if (from !== -1 && from !== to) onMove(from, to);
+      reset();
+    },
+    onDragEnd: reset
+  });
+
+  const dropSideFor = (id: string): DropSide | null =>
+    draggingId && dropTarget?.id === id && draggingId !== id ? dropTarget.side : null;
+
+  return { draggingId, dropSideFor, getItemProps };
+};
@@ -0,0 +1,55 @@
+import { useEffect, useMemo, useState } from 'react';
+import { TableRow } from '../types';
+import { DuplicateGroup, MatchMode, findDuplicateGroups } from '../utils/duplicates';
+import { DuplicateRequest, DuplicateResponse } from '../workers/duplicateProtocol';
+
+interface FuzzySearch {
+  groups: DuplicateGroup[] | null;
+  error: string | null;
+}
+
+/**
+ * Finds duplicate groups for DuplicateFinder. Exact matching is a single pass
+ * and runs inline; fuzzy matching can take seconds, so it runs in a Web Worker
+ * and `searching` is true until it answers. Changing the inputs stops a search
+ * that's still running.
+ */
+export const useDuplicateGroups = (data: TableRow[], keyFieldIds: string[], mode: MatchMode, maxDistance: number) => {
+  const fuzzy = mode === 'fuzzy' && maxDistance > 0 && keyFieldIds.length > 0;
+
+  const exactGroups = useMemo(
+    () => (fuzzy ? [] : findDuplicateGroups(data, { keyFieldIds, mode, maxDistance })),
+    [fuzzy, data, keyFieldIds, mode, maxDistance]
+  );
+
+  const [search, setSearch] = useState<FuzzySearch>({ groups: null, error: null });
+
+  useEffect(() => {
+    if (!fuzzy) return;
+    setSearch({ groups: null, error: null });
+
+    const worker = new Worker(new URL('../workers/duplicateWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<DuplicateResponse>) => {
+      const message = e.data;
+      setSearch(message.type === 'groups'
+        ? { groups: message.groups, error: null }
+        : { groups: [], error: message.message });
+      worker.terminate();
+    };
+    worker.onerror = (e) => {
+      setSearch({ groups: [], error: e.message || 'The duplicate search stopped unexpectedly' });
+      worker.terminate();
+    };
+
+    // Only the key fields are needed, which keeps copying the rows over cheap
+    const request: DuplicateRequest = {
+      rows: data.map(row => Object.fromEntries([['id', row.id], ...keyFieldIds.map(id => [id, row[id]])]) as TableRow),
+      options: { keyFieldIds, mode, maxDistance }
+    };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }, [fuzzy, data, keyFieldIds, mode, maxDistance]);
+
+  if (!fuzzy) return { groups: exactGroups, searching: false, error: null };
+  return { groups: search.groups ?? [], searching: search.groups === null, error: search.error };
+};
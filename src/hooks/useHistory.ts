@@ -0,0 +1,85 @@
+import { useCallback, useState } from 'react';
+import { ChangeMeta, DatasetContent } from '../types';
+
+const MAX_ENTRIES = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  datasetId: string;
+  label: string;
+  coalesceKey?: string;
+  // Only the keys the change touched, so undoing a row edit never resets fields
+  before: Partial<DatasetContent>;
+  after: Partial<DatasetContent>;
+  timestamp: number;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const useHistory = () => {
+  const [history, setHistory] = useState<HistoryState>({ past: [], future: [] });
+
+  const record = useCallback((
+    datasetId: string,
+    before: Partial<DatasetContent>,
+    after: Partial<DatasetContent>,
+    meta: ChangeMeta
+  ) => {
+    const entry: HistoryEntry = { datasetId, before, after, ...meta, timestamp: Date.now() };
+
+    setHistory(prev => {
+      const last = prev.past[prev.past.length - 1];
+      if (
+        last &&
+        entry.coalesceKey &&
+        last.coalesceKey === entry.coalesceKey &&
+        last.datasetId === datasetId &&
+        entry.timestamp - last.timestamp < COALESCE_WINDOW_MS
+      ) {
+        const merged: HistoryEntry = {
+          ...entry,
+          before: { ...entry.before, ...last.before },
+          after: { ...last.after, ...entry.after }
+        };
+        return { past: [...prev.past.slice(0, -1), merged], future: [] };
+      }
+      return { past: [...prev.past, entry].slice(-MAX_ENTRIES), future: [] };
+    });
+  }, []);
+
+  const undo = useCallback((): HistoryEntry | null => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return null;
+    setHistory(prev => ({ past: prev.past.slice(0, -1), future: [entry, ...prev.future] }));
+    return entry;
+  }, [history]);
+
+  const redo = useCallback((): HistoryEntry | null => {
+    const entry = history.future[0];
+    if (!entry) return null;
+    setHistory(prev => ({ past: [...prev.past, entry], future: prev.future.slice(1) }));
+    return entry;
+  }, [history]);
+
+  // Entries for a deleted dataset can no longer be applied
+  const forgetDataset = useCallback((datasetId: string) => {
+    setHistory(prev => ({
+      past: prev.past.filter(entry => entry.datasetId !== datasetId),
+      future: prev.future.filter(entry => entry.datasetId !== datasetId)
+    }));
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    forgetDataset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[0]?.label
+  };
+};
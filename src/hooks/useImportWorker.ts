@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  BuildOptions,
+  BuildResult,
+  BuiltRows,
+  ImportRequest,
+  ImportResponse,
+  ImportStage,
+  ReadResult
+} from '../workers/importProtocol';
+
+export interface ImportProgress {
+  stage: ImportStage;
+  done: number;
+  // 0 while the size of the work isn't known yet
+  total: number;
+}
+
+// Rejects the requests still in flight when cancel() stops the worker
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: never) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs file parsing and import building in a Web Worker. The worker starts on
+ * first use and keeps the file it read, so builds only send options across,
+ * and the rows it built, which rows() fetches in chunks once they're needed.
+ * cancel() stops it outright; requests in flight reject with ImportCancelledError.
+ */
+export const useImportWorker = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  // Rows received so far, per 'rows' request
+  const receivedRef = useRef(new Map<number, BuiltRows>());
+  const nextIdRef = useRef(0);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    const cancelled = new ImportCancelledError();
+    pendingRef.current.forEach(pending => pending.reject(cancelled));
+    pendingRef.current.clear();
+    receivedRef.current.clear();
+    setProgress(null);
+  };
+
+  useEffect(() => cancel, []);
+
+  const getWorker = () => {
+    if (workerRef.current) return workerRef.current;
+    const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (e: MessageEvent<ImportResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setProgress({ stage: message.stage, done: message.done, total: message.total });
+        return;
+      }
+      let rows: BuiltRows | undefined;
+      if (message.type === 'rows') {
+        rows = receivedRef.current.get(message.id) ?? { data: [], origins: [] };
+        message.data.forEach(row => rows!.data.push(row));
+        message.origins.forEach(origin => rows!.origins.push(origin));
+        if (message.done < message.total) {
+          receivedRef.current.set(message.id, rows);
+          setProgress({ stage: 'receiving', done: message.done, total: message.total });
+          return;
+        }
+        receivedRef.current.delete(message.id);
+      }
+      const pending = pendingRef.current.get(message.id);
+      pendingRef.current.delete(message.id);
+      if (pendingRef.current.size === 0) setProgress(null);
+      if (!pending) return;
+      if (message.type === 'error') pending.reject(new Error(message.message));
+      else pending.resolve((message.type === 'rows' ? rows : message.result) as never);
+    };
+
+    worker.onerror = (e) => {
+      const error = new Error(e.message || 'The import worker stopped unexpectedly');
+      pendingRef.current.forEach(pending => pending.reject(error));
+      cancel();
+    };
+
+    workerRef.current = worker;
+    return worker;
+  };
+
+  const send = <T>(request: ImportRequest) =>
+    new Promise<T>((resolve, reject) => {
+      pendingRef.current.set(request.id, { resolve: resolve as (result: never) => void, reject });
+      getWorker().postMessage(request);
+    });
+
+  const read = (file: File) => send<ReadResult>({ id: nextIdRef.current++, type: 'read', file });
+
+  const build = (options: BuildOptions) => send<BuildResult>({ id: nextIdRef.current++, type: 'build', ...options });
+
+  const rows = (buildId: number) => send<BuiltRows>({ id: nextIdRef.current++, type: 'rows', buildId });
+
+  return { progress, read, build, rows, cancel };
+};
@@ -1,8 +1,47 @@
+export type FieldType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'datetime'
+  | 'email'
+  | 'boolean'
+  | 'select'
+  | 'multiselect'
+  | 'currency'
+  | 'percent'
+  | 'url'
+  | 'rating'
+  | 'formula';
+
 export interface Field {
   id: string;
   name: string;
-  type: 'text' | 'number' | 'date' | 'email' | 'boolean';
+  type: FieldType;
   required?: boolean;
+  // Allowed values for select and multiselect fields
+  options?: string[];
+  // ISO 4217 code for currency fields, e.g. USD
+  currency?: string;
+  // Decimal places shown for currency and percent fields
+  decimals?: number;
+  // Expression for formula fields, see utils/formula
+  formula?: string;
+  // IANA zone datetime values are recorded in, e.g. Europe/Paris; unset means local time
+  timeZone?: string;
+  validation?: ValidationRules;
+}
+
+// Checked in addition to `required`; which rules apply depends on the field type
+export interface ValidationRules {
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  unique?: boolean;
+  // ISO dates (YYYY-MM-DD), inclusive
+  minDate?: string;
+  maxDate?: string;
 }
 
 export interface TableRow {
@@ -11,12 +50,71 @@ export interface TableRow {
 }
 
 export interface ChartConfig {
+  id: string;
   type: 'bar' | 'line' | 'pie' | 'area';
   xAxis?: string;
   yAxis: string[];
   title?: string;
+  // Chart only the rows the table filter keeps
+  filtered?: boolean;
+}
+
+// One level of a table sort; earlier keys take precedence
+export interface SortKey {
+  fieldId: string;
+  direction: 'asc' | 'desc';
+}
+
+export type FilterOperator = 'contains' | 'equals' | 'matches' | 'between' | 'isTrue' | 'isFalse' | 'empty' | 'notEmpty';
+
+// Values stay as typed in the inputs; see utils/filters for how each operator reads them
+export interface FilterCondition {
+  id: string;
+  fieldId: string;
+  operator: FilterOperator;
+  value?: string;
+  // Inclusive bounds for `between`, numbers or ISO dates; either may be left open
+  min?: string;
+  max?: string;
+}
+
+export interface FilterGroup {
+  id: string;
+  join: 'and' | 'or';
+  conditions: FilterCondition[];
+  groups: FilterGroup[];
+}
+
+// Column filters all apply; the query, when set, has to match as well
+export interface TableFilter {
+  columns: FilterCondition[];
+  query?: FilterGroup;
 }
 
 export type ChartData = {
   [key: string]: any;
-};
\ No newline at end of file
+};
+
+export interface Dataset {
+  id: string;
+  // Storage format version, see utils/migrations
+  version: number;
+  name: string;
+  fields: Field[];
+  data: TableRow[];
+  charts: ChartConfig[];
+  // Table sort, kept with the dataset so it survives reloads
+  sort?: SortKey[];
+  filter?: TableFilter;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DatasetContent = Pick<Dataset, 'fields' | 'data'>;
+
+// Describes an edit for the undo history; edits sharing a coalesceKey in quick
+// succession (typing in a cell) collapse into a single undo step
+export interface ChangeMeta {
+  label: string;
+  coalesceKey?: string;
+}
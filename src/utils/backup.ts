@@ -0,0 +1,179 @@
+import { Dataset, Field, TableRow } from '../types';
+import { createDataset, uniqueDatasetName } from './datasets';
+import { FIELD_TYPES } from './fieldTypes';
+import { generateId } from './id';
+import { migrateDataset, needsMigration } from './migrations';
+import { toLocalDateString } from './dates';
+
+/**
+ * Backup file format versions:
+ * 0 - a copy of the old localStorage keys: dynamicApp_fields and dynamicApp_data,
+ *     or the dynamicApp_datasets list
+ * 1 - { format, version, exportedAt, settings, datasets }
+ */
+export const CURRENT_BACKUP_VERSION = 1;
+
+const BACKUP_FORMAT = 'datadive-backup';
+
+export const BACKUP_EXTENSION = '.datadive.json';
+
+export interface WorkspaceSettings {
+  activeDatasetId: string | null;
+}
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: WorkspaceSettings;
+  datasets: Dataset[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const createBackup = (datasets: Dataset[], settings: WorkspaceSettings): WorkspaceBackup => ({
+  format: BACKUP_FORMAT,
+  version: CURRENT_BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings,
+  datasets
+});
+
+export const backupFileName = () => `datadive-backup-${toLocalDateString(new Date())}${BACKUP_EXTENSION}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Version 0 files are whatever was copied out of localStorage
+const fromLocalStorageCopy = (raw: Record<string, unknown> | unknown[]): WorkspaceBackup => {
+  const datasets = Array.isArray(raw)
+    ? raw
+    : Array.isArray(raw.dynamicApp_datasets)
+      ? raw.dynamicApp_datasets
+      : raw.dynamicApp_fields || raw.dynamicApp_data
+        // Those rows are keyed by field name, so mark the dataset for migration
+        ? [{
+          ...createDataset('My Dataset', (raw.dynamicApp_fields || []) as Field[], (raw.dynamicApp_data || []) as TableRow[]),
+          version: 1
+        }]
+        : null;
+  if (!datasets) throw new BackupError('This file is not a Data Dive backup');
+  return { format: BACKUP_FORMAT, version: 1, exportedAt: '', settings: { activeDatasetId: null }, datasets: datasets as Dataset[] };
+};
+
+const migrations: Record<number, (raw: Record<string, unknown> | unknown[]) => WorkspaceBackup> = {
+  0: fromLocalStorageCopy
+};
+
+const FIELD_TYPE_VALUES = new Set<string>(FIELD_TYPES.map(type => type.value));
+
+// Checks the shape the app relies on; anything else in a dataset is carried along untouched
+const validateDataset = (value: unknown, index: number): Dataset => {
+  const where = `Dataset ${index + 1}`;
+  if (!isObject(value)) throw new BackupError(`${where} is not an object`);
+  if (!Array.isArray(value.fields)) throw new BackupError(`${where} has no field list`);
+  value.fields.forEach((field, fieldIndex) => {
+    if (!isObject(field) || typeof field.id !== 'string' || typeof field.name !== 'string') {
+      throw new BackupError(`${where}, field ${fieldIndex + 1} needs an id and a name`);
+    }
+    if (!FIELD_TYPE_VALUES.has(String(field.type))) {
+      throw new BackupError(`${where}, field "${field.name}" has unknown type "${field.type}"`);
+    }
+  });
+  if (value.data !== undefined && !Array.isArray(value.data)) throw new BackupError(`${where} has invalid rows`);
+  const data = (value.data ?? []) as unknown[];
+  if (data.some(row => !isObject(row) || typeof row.id !== 'string')) {
+    throw new BackupError(`${where} has rows without an id`);
+  }
+  if (value.charts !== undefined && !Array.isArray(value.charts)) throw new BackupError(`${where} has invalid charts`);
+  if (value.sort !== undefined && !Array.isArray(value.sort)) throw new BackupError(`${where} has an invalid sort`);
+  if (value.filter !== undefined && (!isObject(value.filter) || !Array.isArray(value.filter.columns))) {
+    throw new BackupError(`${where} has an invalid filter`);
+  }
+
+  const now = new Date().toISOString();
+  return {
+    ...value,
+    id: typeof value.id === 'string' ? value.id : generateId('dataset'),
+    name: typeof value.name === 'string' && value.name.trim() ? value.name : `Dataset ${index + 1}`,
+    fields: value.fields as Field[],
+    data: data as TableRow[],
+    charts: (value.charts ?? []) as Dataset['charts'],
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : now,
+    version: typeof value.version === 'number' ? value.version : 1
+  };
+};
+
+/**
+ * Reads a backup file: checks it, upgrades older file versions and migrates
+ * each dataset to the current storage format. Throws a BackupError saying
+ * what's wrong otherwise.
+ */
+export const parseBackup = (text: string): WorkspaceBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not valid JSON');
+  }
+
+  let backup: WorkspaceBackup;
+  if (isObject(raw) && raw.format === BACKUP_FORMAT) {
+    const version = raw.version;
+    if (typeof version !== 'number') throw new BackupError('The backup has no format version');
+    if (version > CURRENT_BACKUP_VERSION) {
+      throw new BackupError('This backup was made by a newer version of Data Dive. Update the app to restore it.');
+    }
+    if (version < CURRENT_BACKUP_VERSION && !(Number.isInteger(version) && version >= 0 && migrations[version])) {
+      throw new BackupError('Unsupported backup version');
+    }
+    backup = version < CURRENT_BACKUP_VERSION ? migrations[version](raw) : raw as unknown as WorkspaceBackup;
+  } else if (Array.isArray(raw) || isObject(raw)) {
+    backup = migrations[0](raw);
+  } else {
+    throw new BackupError('This file is not a Data Dive backup');
+  }
+
+  if (!Array.isArray(backup.datasets) || backup.datasets.length === 0) {
+    throw new BackupError('The backup contains no datasets');
+  }
+
+  const datasets = backup.datasets
+    .map(validateDataset)
+    .map(dataset => (needsMigration(dataset) ? migrateDataset(dataset) : dataset));
+  const activeDatasetId = isObject(backup.settings) && typeof backup.settings.activeDatasetId === 'string'
+    ? backup.settings.activeDatasetId
+    : null;
+
+  return { ...backup, version: CURRENT_BACKUP_VERSION, settings: { activeDatasetId }, datasets };
+};
+
+/**
+ * Adds restored datasets to the current ones. A dataset that's already here
+ * unchanged is skipped; one that has changed on either side comes in as a
+ * separate copy, so nothing is overwritten.
+ */
+export const mergeDatasets = (current: Dataset[], restored: Dataset[]): Dataset[] => {
+  const byId = new Map(current.map(dataset => [dataset.id, dataset]));
+  const merged = [...current];
+  restored.forEach(dataset => {
+    const existing = byId.get(dataset.id);
+    if (existing && existing.updatedAt === dataset.updatedAt) return;
+    merged.push(existing
+      ? {
+        ...dataset,
+        id: generateId('dataset'),
+        name: uniqueDatasetName(`${dataset.name} (restored)`, merged.map(d => d.name))
+      }
+      : { ...dataset, name: uniqueDatasetName(dataset.name, merged.map(d => d.name)) });
+  });
+  return merged;
+};
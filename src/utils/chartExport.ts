@@ -0,0 +1,159 @@
+import { downloadBlob, safeFileName } from './exporter';
+
+export interface LegendItem {
+  label: string;
+  color: string;
+}
+
+export const PNG_SCALES = [1, 2, 4];
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+const TITLE_HEIGHT = 48;
+const LEGEND_ROW_HEIGHT = 24;
+const LEGEND_SWATCH = 12;
+// Rough width of a legend character at 12px, enough to lay entries out without measuring
+const LEGEND_CHAR_WIDTH = 7;
+const PADDING = 16;
+
+// Presentation properties Recharts leaves to stylesheets, which don't travel with the markup
+const INLINED_STYLES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'visibility'
+];
+
+const inlineStyles = (source: Element, target: Element) => {
+  const computed = window.getComputedStyle(source);
+  const style = INLINED_STYLES
+    .map(property => `${property}:${computed.getPropertyValue(property)}`)
+    .join(';');
+  target.setAttribute('style', `${target.getAttribute('style') ?? ''};${style}`);
+  Array.from(source.children).forEach((child, index) => inlineStyles(child, target.children[index]));
+};
+
+const element = (name: string, attributes: Record<string, string | number>, text?: string) => {
+  const node = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => node.setAttribute(key, String(value)));
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+// Lays legend entries out left to right, wrapping onto new rows
+const legendRows = (items: LegendItem[], width: number) => {
+  const rows: { item: LegendItem; x: number }[][] = [[]];
+  let x = PADDING;
+  items.forEach(item => {
+    const itemWidth = LEGEND_SWATCH + 6 + item.label.length * LEGEND_CHAR_WIDTH + 16;
+    if (x + itemWidth > width - PADDING && rows[rows.length - 1].length > 0) {
+      rows.push([]);
+      x = PADDING;
+    }
+    rows[rows.length - 1].push({ item, x });
+    x += itemWidth;
+  });
+  return items.length > 0 ? rows : [];
+};
+
+/**
+ * Builds a standalone SVG from a rendered Recharts chart, with the title above
+ * and the legend below. Styles are copied onto each element so the file looks
+ * the same outside the page.
+ */
+export const buildChartSvg = (chart: SVGSVGElement, title: string | undefined, legend: LegendItem[]) => {
+  const { width: chartWidth, height: chartHeight } = chart.getBoundingClientRect();
+  const width = Math.round(chartWidth);
+  const titleHeight = title ? TITLE_HEIGHT : PADDING;
+  const rows = legendRows(legend, width);
+  const height = Math.round(titleHeight + chartHeight + rows.length * LEGEND_ROW_HEIGHT + PADDING);
+
+  const root = element('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}` });
+  root.appendChild(element('rect', { width, height, fill: '#ffffff' }));
+
+  if (title) {
+    root.appendChild(element('text', {
+      x: width / 2,
+      y: TITLE_HEIGHT / 2 + 7,
+      'text-anchor': 'middle',
+      'font-family': FONT_FAMILY,
+      'font-size': 20,
+      'font-weight': 700,
+      fill: '#1f2937'
+    }, title));
+  }
+
+  const copy = chart.cloneNode(true) as SVGSVGElement;
+  inlineStyles(chart, copy);
+  copy.setAttribute('x', '0');
+  copy.setAttribute('y', String(titleHeight));
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(Math.round(chartHeight)));
+  root.appendChild(copy);
+
+  rows.forEach((row, rowIndex) => {
+    const y = titleHeight + chartHeight + rowIndex * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+    // Center each row under the chart
+    const last = row[row.length - 1];
+    const rowWidth = last.x + LEGEND_SWATCH + 6 + last.item.label.length * LEGEND_CHAR_WIDTH - PADDING;
+    const offset = Math.max(0, (width - rowWidth) / 2 - PADDING);
+    row.forEach(({ item, x }) => {
+      root.appendChild(element('rect', {
+        x: x + offset,
+        y: y - LEGEND_SWATCH / 2,
+        width: LEGEND_SWATCH,
+        height: LEGEND_SWATCH,
+        rx: 2,
+        fill: item.color
+      }));
+      root.appendChild(element('text', {
+        x: x + offset + LEGEND_SWATCH + 6,
+        y: y + 4,
+        'font-family': FONT_FAMILY,
+        'font-size': 12,
+        fill: '#374151'
+      }, item.label));
+    });
+  });
+
+  return { markup: new XMLSerializer().serializeToString(root), width, height };
+};
+
+const chartFileName = (title: string | undefined) => safeFileName(title, 'chart');
+
+export const exportChartSvg = (chart: SVGSVGElement, title: string | undefined, legend: LegendItem[]) => {
+  const { markup } = buildChartSvg(chart, title, legend);
+  downloadBlob(new Blob([markup], { type: 'image/svg+xml' }), `${chartFileName(title)}.svg`);
+};
+
+export const exportChartPng = (chart: SVGSVGElement, title: string | undefined, legend: LegendItem[], scale: number) =>
+  new Promise<void>((resolve, reject) => {
+    const { markup, width, height } = buildChartSvg(chart, title, legend);
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Could not create the image'));
+          return;
+        }
+        downloadBlob(blob, `${chartFileName(title)}.png`);
+        resolve();
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the chart'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,53 @@
+import { ChartConfig, Field, TableRow } from '../types';
+import { LegendItem } from './chartExport';
+
+export const CHART_COLORS = [
+  '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6',
+  '#06B6D4', '#84CC16', '#F97316', '#EC4899', '#6366F1'
+];
+
+export const chartColor = (index: number) => CHART_COLORS[index % CHART_COLORS.length];
+
+// One point per row: its label plus a value for each charted field
+export interface ChartPoint {
+  index: number;
+  label: unknown;
+  [fieldId: string]: unknown;
+}
+
+export interface PieSlice {
+  name: unknown;
+  value: number;
+}
+
+// Chart configs reference fields by id; show their current names in legends
+export const chartFieldName = (fields: Field[], fieldId: string) =>
+  fields.find(field => field.id === fieldId)?.name ?? fieldId;
+
+export const buildChartPoints = (data: TableRow[], config: ChartConfig): ChartPoint[] =>
+  data.map((row, index) => {
+    const point: ChartPoint = {
+      index: index + 1,
+      label: config.xAxis && row[config.xAxis] ? row[config.xAxis] : `Row ${index + 1}`
+    };
+    config.yAxis.forEach(fieldId => {
+      const value = row[fieldId];
+      point[fieldId] = typeof value === 'number' ? value : 0;
+    });
+    return point;
+  });
+
+// Pie slices are rows (or fields when several are picked); other charts have a series per field
+export const buildPieSlices = (points: ChartPoint[], config: ChartConfig, fields: Field[]): PieSlice[] =>
+  config.yAxis.length === 1
+    ? points.map(point => ({ name: point.label, value: point[config.yAxis[0]] as number }))
+    : config.yAxis.map(fieldId => ({
+      name: chartFieldName(fields, fieldId),
+      value: points.reduce((sum, point) => sum + ((point[fieldId] as number) || 0), 0)
+    }));
+
+export const chartLegend = (config: ChartConfig, fields: Field[], data: TableRow[]): LegendItem[] =>
+  config.type === 'pie'
+    ? buildPieSlices(buildChartPoints(data, config), config, fields)
+      .map((slice, index) => ({ label: String(slice.name), color: chartColor(index) }))
+    : config.yAxis.map((fieldId, index) => ({ label: chartFieldName(fields, fieldId), color: chartColor(index) }));
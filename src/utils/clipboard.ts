@@ -0,0 +1,98 @@
+import { Field, TableRow } from '../types';
+import { emptyValueFor, toPlainText, tryConvertValue } from './convert';
+import { getDefaultValue } from './fieldTypes';
+import { formatDelimited, parseDelimited } from './delimited';
+import { generateId } from './id';
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// Inclusive rectangle of cells, in display order
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface PasteResult {
+  data: TableRow[];
+  changed: number;
+  added: number;
+  // Values that didn't fit their column's type and were left out
+  rejected: number;
+}
+
+export const rangeBetween = (a: CellPosition, b: CellPosition): CellRange => ({
+  top: Math.min(a.row, b.row),
+  left: Math.min(a.col, b.col),
+  bottom: Math.max(a.row, b.row),
+  right: Math.max(a.col, b.col)
+});
+
+// Excel and Google Sheets put copied ranges on the clipboard as TSV
+export const parseClipboardTable = (text: string): string[][] => parseDelimited(text, '\t');
+
+export const copyRange = (rows: TableRow[], fields: Field[], range: CellRange): string =>
+  formatDelimited(
+    rows
+      .slice(range.top, range.bottom + 1)
+      .map(row => fields.slice(range.left, range.right + 1).map(field => toPlainText(row[field.id]))),
+    '\t'
+  );
+
+/**
+ * Writes a pasted block into the rows starting at `start`, converting each
+ * value to its column's type and adding rows when the block runs past the
+ * end. A single pasted value fills the whole of `fill` when given, like a
+ * spreadsheet. Formula columns are computed, so values aimed at them are skipped.
+ */
+export const pasteIntoRows = (
+  data: TableRow[],
+  fields: Field[],
+  block: string[][],
+  start: CellPosition,
+  fill?: CellRange
+): PasteResult => {
+  const single = block.length === 1 && block[0].length === 1;
+  const grid = single && fill
+    ? Array.from({ length: fill.bottom - fill.top + 1 }, () => Array(fill.right - fill.left + 1).fill(block[0][0]))
+    : block;
+  const origin = single && fill ? { row: fill.top, col: fill.left } : start;
+
+  const next = [...data];
+  let changed = 0;
+  let added = 0;
+  let rejected = 0;
+
+  grid.forEach((cells, i) => {
+    const rowIndex = origin.row + i;
+    if (rowIndex >= next.length) {
+      next.push({
+        id: generateId('row'),
+        ...Object.fromEntries(fields
+          .filter(field => field.type !== 'formula')
+          .map(field => [field.id, field.required ? emptyValueFor(field.type) : getDefaultValue(field.type)]))
+      });
+      added++;
+    }
+
+    const updates: Record<string, unknown> = {};
+    cells.forEach((text, j) => {
+      const field = fields[origin.col + j];
+      if (!field || field.type === 'formula') return;
+      const result = tryConvertValue(text, field.type, { timeZone: field.timeZone });
+      if (result.ok) {
+        updates[field.id] = result.value;
+        changed++;
+      } else {
+        rejected++;
+      }
+    });
+    if (Object.keys(updates).length > 0) next[rowIndex] = { ...next[rowIndex], ...updates };
+  });
+
+  return { data: next, changed, added, rejected };
+};
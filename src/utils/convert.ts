@@ -0,0 +1,217 @@
+import { Field, TableRow } from '../types';
+import { CURRENCY_SYMBOLS, RATING_MAX } from './fieldTypes';
+import { DateFormat, parseDateParts, toDateString, toDateTimeString } from './dates';
+
+export type ConversionResult =
+  | { ok: true; value: unknown }
+  | { ok: false; reason: string };
+
+// How to read ambiguous dates like 03/04/2025, and the zone datetimes are recorded in
+export interface ConversionOptions {
+  dateFormat?: DateFormat;
+  timeZone?: string;
+}
+
+export interface ConversionFailure {
+  rowId: string;
+  rowIndex: number;
+  value: unknown;
+  reason: string;
+}
+
+export interface ConversionPreview {
+  converted: number;
+  empty: number;
+  failures: ConversionFailure[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const THOUSANDS_PATTERN = /^-?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+\.[^\s]+$/i;
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+const CURRENCY_CODES = /\b[A-Z]{3}\b/g;
+
+export const isEmptyValue = (value: unknown) =>
+  value === null || value === undefined || value === '';
+
+export const emptyValueFor = (type: Field['type']) =>
+  type === 'boolean' ? false : type === 'multiselect' ? [] : '';
+
+// Plain text for a stored value that imports or pastes back into the same field type
+export const toPlainText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const parseNumber = (str: string): number | null => {
+  const normalized = THOUSANDS_PATTERN.test(str) ? str.replace(/,/g, '') : str;
+  const parsed = Number(normalized);
+  return normalized !== '' && Number.isFinite(parsed) ? parsed : null;
+};
+
+// Accepts "$1,234.50", "1234.50 USD", "(12.00)" for negatives
+const parseCurrency = (str: string): number | null => {
+  const withoutSymbols = str
+    .replace(CURRENCY_CODES, '')
+    .replace(new RegExp(`[${Object.keys(CURRENCY_SYMBOLS).join('')}]`, 'g'), '')
+    .trim();
+  const negative = /^\(.*\)$/.test(withoutSymbols);
+  const parsed = parseNumber(withoutSymbols.replace(/[()]/g, '').trim());
+  return parsed === null ? null : negative ? -parsed : parsed;
+};
+
+const parsePercent = (str: string): number | null => parseNumber(str.replace(/%$/, '').trim());
+
+// Splits "a, b; c" into ["a", "b", "c"]
+export const splitOptions = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value).split(/[,;]/))
+    .map(option => option.trim())
+    .filter(Boolean);
+
+const parseRating = (value: unknown): number | null => {
+  const str = String(value).trim();
+  const stars = /^★+☆*$/.test(str) ? str.replace(/☆/g, '').length : Number(str);
+  return Number.isInteger(stars) && stars >= 0 && stars <= RATING_MAX ? stars : null;
+};
+
+const normalizeUrl = (str: string) => (/^www\./i.test(str) ? `https://${str}` : str);
+
+// Dates become "YYYY-MM-DD" and datetimes "YYYY-MM-DDTHH:mm"; numbers are never read as dates
+const parseDate = (value: unknown, type: 'date' | 'datetime', { dateFormat, timeZone }: ConversionOptions): string | null => {
+  if (typeof value === 'number' || typeof value === 'boolean') return null;
+  const parts = parseDateParts(value instanceof Date ? value : String(value), dateFormat, timeZone);
+  if (!parts) return null;
+  return type === 'date' ? toDateString(parts) : toDateTimeString(parts);
+};
+
+/**
+ * Lenient conversion used by imports: anything that doesn't parse falls back
+ * to the type's default instead of failing.
+ */
+export const convertValue = (value: unknown, type: Field['type'], options: ConversionOptions = {}): unknown => {
+  if (isEmptyValue(value)) {
+    return type === 'number' ? 0 : emptyValueFor(type);
+  }
+
+  switch (type) {
+    case 'number':
+      return Number(value) || 0;
+    case 'currency':
+      return typeof value === 'number' ? value : parseCurrency(String(value).trim()) ?? 0;
+    case 'percent':
+      return typeof value === 'number' ? value : parsePercent(String(value).trim()) ?? 0;
+    case 'rating':
+      return parseRating(value) ?? 0;
+    case 'multiselect':
+      return splitOptions(value);
+    case 'url':
+      return normalizeUrl(String(value).trim());
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      return TRUE_VALUES.includes(String(value).toLowerCase());
+    }
+    case 'date':
+    case 'datetime':
+      return parseDate(value, type, options) ?? '';
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Strict conversion used when changing a field's type: reports why a value
+ * can't be represented instead of silently coercing it.
+ */
+export const tryConvertValue = (value: unknown, type: Field['type'], options: ConversionOptions = {}): ConversionResult => {
+  if (isEmptyValue(value)) return { ok: true, value: emptyValueFor(type) };
+
+  const str = String(value).trim();
+
+  switch (type) {
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? { ok: true, value } : { ok: false, reason: 'Not a finite number' };
+      if (typeof value === 'boolean') return { ok: true, value: value ? 1 : 0 };
+      const parsed = parseNumber(str);
+      return parsed !== null ? { ok: true, value: parsed } : { ok: false, reason: 'Not a number' };
+    }
+    case 'currency': {
+      if (typeof value === 'number') return { ok: true, value };
+      const parsed = parseCurrency(str);
+      return parsed !== null ? { ok: true, value: parsed } : { ok: false, reason: 'Not a money amount' };
+    }
+    case 'percent': {
+      if (typeof value === 'number') return { ok: true, value };
+      const parsed = parsePercent(str);
+      return parsed !== null ? { ok: true, value: parsed } : { ok: false, reason: 'Not a percentage' };
+    }
+    case 'rating': {
+      const parsed = parseRating(value);
+      return parsed !== null ? { ok: true, value: parsed } : { ok: false, reason: `Not a rating from 0 to ${RATING_MAX}` };
+    }
+    case 'select':
+      return { ok: true, value: Array.isArray(value) ? value.join(', ') : str };
+    case 'multiselect':
+      return { ok: true, value: splitOptions(value) };
+    case 'url':
+      return URL_PATTERN.test(str) ? { ok: true, value: normalizeUrl(str) } : { ok: false, reason: 'Not a web address' };
+    case 'boolean': {
+      if (typeof value === 'boolean') return { ok: true, value };
+      const lower = str.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { ok: true, value: true };
+      if (FALSE_VALUES.includes(lower)) return { ok: true, value: false };
+      return { ok: false, reason: 'Not a yes/no value' };
+    }
+    case 'date':
+    case 'datetime': {
+      const parsed = parseDate(value, type, options);
+      return parsed !== null ? { ok: true, value: parsed } : { ok: false, reason: 'Not a recognizable date' };
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(str) ? { ok: true, value: str } : { ok: false, reason: 'Not a valid email address' };
+    default:
+      if (typeof value === 'boolean') return { ok: true, value: value ? 'Yes' : 'No' };
+      return { ok: true, value: Array.isArray(value) ? value.join(', ') : String(value) };
+  }
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => v === b[i]));
+
+export const previewConversion = (data: TableRow[], fieldId: string, type: Field['type']): ConversionPreview => {
+  const preview: ConversionPreview = { converted: 0, empty: 0, failures: [] };
+
+  data.forEach((row, rowIndex) => {
+    const value = row[fieldId];
+    if (isEmptyValue(value)) {
+      preview.empty++;
+      return;
+    }
+    const result = tryConvertValue(value, type);
+    if (result.ok) {
+      preview.converted++;
+    } else {
+      preview.failures.push({ rowId: row.id, rowIndex, value, reason: result.reason });
+    }
+  });
+
+  return preview;
+};
+
+/**
+ * Converts every value of a field. Values that can't be converted are either
+ * left untouched or blanked out, depending on `onFailure`.
+ */
+export const applyConversion = (
+  data: TableRow[],
+  fieldId: string,
+  type: Field['type'],
+  onFailure: 'keep' | 'blank'
+): TableRow[] =>
+  data.map(row => {
+    const result = tryConvertValue(row[fieldId], type);
+    if (result.ok) return sameValue(row[fieldId], result.value) ? row : { ...row, [fieldId]: result.value };
+    return onFailure === 'blank' ? { ...row, [fieldId]: emptyValueFor(type) } : row;
+  });
@@ -0,0 +1,45 @@
+import { ChartConfig, Dataset, Field, TableRow } from '../types';
+import { generateId } from './id';
+import { CURRENT_DATASET_VERSION } from './migrations';
+
+export const createChart = (title = 'My Chart'): ChartConfig => ({
+  id: generateId('chart'),
+  type: 'bar',
+  yAxis: [],
+  title
+});
+
+export const createDataset = (name: string, fields: Field[] = [], data: TableRow[] = []): Dataset => {
+  const now = new Date().toISOString();
+  return {
+    id: generateId('dataset'),
+    version: CURRENT_DATASET_VERSION,
+    name,
+    fields,
+    data,
+    charts: [createChart()],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const duplicateDataset = (dataset: Dataset, existingNames: string[]): Dataset => {
+  const now = new Date().toISOString();
+  return {
+    ...structuredClone(dataset),
+    id: generateId('dataset'),
+    name: uniqueDatasetName(`${dataset.name} (copy)`, existingNames),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Appends " 2", " 3", ... until the name no longer clashes with an existing dataset
+export const uniqueDatasetName = (name: string, existingNames: string[]): string => {
+  const taken = new Set(existingNames.map(n => n.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+
+  let counter = 2;
+  while (taken.has(`${name} ${counter}`.toLowerCase())) counter++;
+  return `${name} ${counter}`;
+};
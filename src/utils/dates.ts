@@ -0,0 +1,183 @@
+/**
+ * Dates are stored as plain calendar strings: "YYYY-MM-DD" for date fields and
+ * "YYYY-MM-DDTHH:mm[:ss]" (wall-clock time) for datetime fields. Nothing here
+ * goes through toISOString() or Date parsing of ambiguous strings, so values
+ * never shift by a day across time zones.
+ */
+
+// Order of day, month and year in delimited dates like 03/04/2025
+export type DateFormat = 'ISO' | 'YMD' | 'DMY' | 'MDY';
+
+export const DATE_FORMATS: { value: DateFormat; label: string; example: string }[] = [
+  { value: 'ISO', label: 'ISO', example: '2025-04-03' },
+  { value: 'YMD', label: 'Year/Month/Day', example: '2025/04/03' },
+  { value: 'DMY', label: 'Day/Month/Year', example: '03/04/2025' },
+  { value: 'MDY', label: 'Month/Day/Year', example: '04/03/2025' }
+];
+
+export const TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+const DELIMITED_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[T ,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i;
+const MONTH_NAME_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b/i;
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+const expandYear = (year: number, digits: number) =>
+  digits > 2 ? year : year < 50 ? 2000 + year : 1900 + year;
+
+const isValid = ({ year, month, day, hour = 0, minute = 0, second = 0 }: DateParts) => {
+  if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59 || second > 59) return false;
+  // Rejects 2025-02-30 and the like
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+// Wall-clock parts of an instant in the given zone (or the browser's zone)
+const partsInZone = (date: Date, timeZone?: string): DateParts => {
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const get = (type: string) => Number(formatted.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// "3 April 2025" or "Apr 3, 2025 14:30" can't be misread, so the browser's parser is safe here
+const parseWithMonthName = (str: string): DateParts | null => {
+  if (!MONTH_NAME_PATTERN.test(str)) return null;
+  const date = new Date(str);
+  if (isNaN(date.getTime())) return null;
+  const parts = { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+  return /\d:\d{2}/.test(str)
+    ? { ...parts, hour: date.getHours(), minute: date.getMinutes(), second: date.getSeconds() }
+    : parts;
+};
+
+/**
+ * Parses a date or datetime. `format` resolves day/month order for delimited
+ * dates; ISO strings are always accepted. Timestamps with an explicit offset
+ * ("…Z", "…+02:00") are converted to wall-clock time in `timeZone`.
+ */
+export const parseDateParts = (value: unknown, format: DateFormat = 'MDY', timeZone?: string): DateParts | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : partsInZone(value, timeZone);
+  }
+  if (typeof value !== 'string') return null;
+  const str = value.trim();
+
+  const iso = ISO_PATTERN.exec(str);
+  if (iso) {
+    if (iso[7]) {
+      const instant = new Date(str.replace(' ', 'T'));
+      return isNaN(instant.getTime()) ? null : partsInZone(instant, timeZone);
+    }
+    const parts: DateParts = {
+      year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]),
+      ...(iso[4] !== undefined && { hour: Number(iso[4]), minute: Number(iso[5]), second: Number(iso[6] ?? 0) })
+    };
+    return isValid(parts) ? parts : null;
+  }
+
+  const match = DELIMITED_PATTERN.exec(str);
+  if (!match) return parseWithMonthName(str);
+  const [a, b, c] = [match[1], match[2], match[3]];
+
+  let parts: DateParts;
+  if (a.length === 4 || format === 'YMD' || format === 'ISO') {
+    parts = { year: expandYear(Number(a), a.length), month: Number(b), day: Number(c) };
+  } else if (format === 'DMY') {
+    parts = { year: expandYear(Number(c), c.length), month: Number(b), day: Number(a) };
+  } else {
+    parts = { year: expandYear(Number(c), c.length), month: Number(a), day: Number(b) };
+  }
+
+  if (match[4] !== undefined) {
+    let hour = Number(match[4]);
+    const meridiem = match[7]?.toUpperCase();
+    if (meridiem === 'PM' && hour < 12) hour += 12;
+    if (meridiem === 'AM' && hour === 12) hour = 0;
+    parts = { ...parts, hour, minute: Number(match[5]), second: Number(match[6] ?? 0) };
+  }
+
+  return isValid(parts) ? parts : null;
+};
+
+export const hasTime = (parts: DateParts) => parts.hour !== undefined;
+
+export const toDateString = ({ year, month, day }: DateParts) => `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+
+export const toDateTimeString = (parts: DateParts) => {
+  const { hour = 0, minute = 0, second = 0 } = parts;
+  return `${toDateString(parts)}T${pad(hour)}:${pad(minute)}${second ? `:${pad(second)}` : ''}`;
+};
+
+// Excel's serial day number (days since 1899-12-30), with the time as a fraction
+export const toExcelSerial = ({ year, month, day, hour = 0, minute = 0, second = 0 }: DateParts) =>
+  (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86400000 + (hour * 3600 + minute * 60 + second) / 86400;
+
+// Local calendar date of a Date object, e.g. for "today"
+export const toLocalDateString = (date: Date) =>
+  toDateString({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+
+/**
+ * Picks the day/month order that fits every value: a first part above 12 means
+ * day-first, a second part above 12 means month-first. Ties fall back to
+ * month-first and are reported as ambiguous.
+ */
+export const detectDateFormat = (values: string[]): { format: DateFormat; ambiguous: boolean } => {
+  const delimited = values
+    .filter(value => !ISO_PATTERN.test(value.trim()))
+    .map(value => DELIMITED_PATTERN.exec(value.trim()))
+    .filter((match): match is RegExpExecArray => match !== null);
+
+  if (delimited.length === 0) return { format: 'ISO', ambiguous: false };
+  if (delimited.every(match => match[1].length === 4)) return { format: 'YMD', ambiguous: false };
+  if (delimited.some(match => Number(match[1]) > 12)) return { format: 'DMY', ambiguous: false };
+  if (delimited.some(match => Number(match[2]) > 12)) return { format: 'MDY', ambiguous: false };
+  return { format: 'MDY', ambiguous: true };
+};
+
+export const formatDateForDisplay = (value: string) => {
+  const parts = parseDateParts(value, 'ISO');
+  if (!parts) return value;
+  // Built from local parts, so the browser's time zone can't move it to another day
+  return new Date(parts.year, parts.month - 1, parts.day).toLocaleDateString();
+};
+
+export const formatDateTimeForDisplay = (value: string, timeZone?: string) => {
+  const parts = parseDateParts(value, 'ISO');
+  if (!parts) return value;
+  const { hour = 0, minute = 0, second = 0 } = parts;
+  const text = new Date(parts.year, parts.month - 1, parts.day, hour, minute, second).toLocaleString(undefined, {
+    year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit'
+  });
+  return timeZone ? `${text} (${timeZone})` : text;
+};
@@ -0,0 +1,93 @@
+/**
+ * Incremental parser for CSV, TSV and spreadsheet clipboard text. Text can
+ * arrive in chunks of any size, split anywhere, even inside a quoted cell;
+ * push() returns the rows completed so far and end() flushes the last one.
+ * Quoted cells may contain delimiters and newlines, with "" for a quote.
+ */
+export const createDelimitedParser = (delimiter: string) => {
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  // A quote inside a quoted cell might be the first half of "", or its end
+  let pendingQuote = false;
+  // A \r at the end of a chunk might be followed by \n in the next one
+  let pendingReturn = false;
+
+  const push = (text: string): string[][] => {
+    const rows: string[][] = [];
+    const endRow = () => {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (pendingReturn) {
+        pendingReturn = false;
+        if (char === '\n') continue;
+      }
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          cell += '"';
+          continue;
+        }
+        quoted = false;
+      }
+      if (quoted) {
+        if (char === '"') pendingQuote = true;
+        else cell += char;
+      } else if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n') {
+        endRow();
+      } else if (char === '\r') {
+        endRow();
+        pendingReturn = true;
+      } else {
+        cell += char;
+      }
+    }
+    return rows;
+  };
+
+  const end = (): string[][] => {
+    // Files usually end with a newline; don't turn that into an empty row
+    if (cell === '' && row.length === 0) return [];
+    row.push(cell);
+    const last = row;
+    row = [];
+    cell = '';
+    return [last];
+  };
+
+  return { push, end };
+};
+
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const parser = createDelimitedParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+};
+
+// Quotes cells only when they hold the delimiter, a quote or a line break
+export const formatDelimited = (rows: string[][], delimiter: string): string => {
+  const needsQuotes = (text: string) => text.includes(delimiter) || /["\n\r]/.test(text);
+  return rows
+    .map(row => row.map(text => (needsQuotes(text) ? `"${text.replace(/"/g, '""')}"` : text)).join(delimiter))
+    .join('\n');
+};
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Picks the delimiter that splits the first line into the most cells, ignoring quoted text
+export const guessDelimiter = (sample: string): string => {
+  const firstLine = sample.split(/\r?\n/)[0].replace(/"[^"]*"/g, '');
+  const counts = CANDIDATE_DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? CANDIDATE_DELIMITERS[best] : ',';
+};
@@ -0,0 +1,212 @@
+import { Field, TableRow } from '../types';
+import { isEmptyValue } from './convert';
+
+export type MatchMode = 'exact' | 'fuzzy';
+
+export interface DuplicateOptions {
+  keyFieldIds: string[];
+  mode: MatchMode;
+  // Fuzzy only: most character edits allowed across all key fields together
+  maxDistance: number;
+}
+
+// Rows that look like the same record, in dataset order
+export interface DuplicateGroup {
+  rowIds: string[];
+}
+
+// How a group is settled: the row that stays, and which row each field's value comes from
+export interface GroupResolution {
+  keepId: string;
+  sources: Record<string, string>;
+}
+
+const keyText = (value: unknown) => (Array.isArray(value) ? value.join(', ') : String(value));
+
+// Case and runs of whitespace don't tell records apart
+const normalize = (value: unknown) => keyText(value).trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Levenshtein distance, giving up once it's certain to exceed `max`; returns
+ * max + 1 in that case. Keeps a single row of the table.
+ */
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Fuzzy matching takes seconds on datasets this size even with candidates narrowed
+// down, so larger ones are limited to exact matching
+export const FUZZY_ROW_LIMIT = 20000;
+
+// Length of the character runs keys are indexed by
+const GRAM_SIZE = 3;
+
+// A key's runs of GRAM_SIZE characters; repeats are numbered so each one counts separately
+const grams = (key: string) => {
+  const counts = new Map<string, number>();
+  const result: string[] = [];
+  for (let i = 0; i + GRAM_SIZE <= key.length; i++) {
+    const gram = key.slice(i, i + GRAM_SIZE);
+    const count = (counts.get(gram) ?? 0) + 1;
+    counts.set(gram, count);
+    result.push(`${gram}\u0002${count}`);
+  }
+  return result;
+};
+
+/**
+ * Calls `visit` with pairs of keys that could be within `max` edits, so only
+ * those get the full distance check. An edit destroys at most GRAM_SIZE of a
+ * key's runs, so two close keys share one of their `max * GRAM_SIZE + 1`
+ * rarest runs. Only those rare runs are indexed, which keeps common ones
+ * ("the", a shared first name) from making every key a candidate.
+ * Keys too short for that guarantee are checked against every key of similar
+ * length instead.
+ */
+const forEachFuzzyCandidate = (keys: string[], max: number, visit: (a: number, b: number) => void) => {
+  const prefixSize = max * GRAM_SIZE + 1;
+  const keyGrams = keys.map(grams);
+  const frequency = new Map<string, number>();
+  keyGrams.forEach(list => list.forEach(gram => frequency.set(gram, (frequency.get(gram) ?? 0) + 1)));
+  const rarestFirst = (a: string, b: string) => frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : a > b ? 1 : 0);
+
+  const byLength = new Map<number, number[]>();
+  keys.forEach((key, i) => {
+    const sameLength = byLength.get(key.length);
+    if (sameLength) sameLength.push(i);
+    else byLength.set(key.length, [i]);
+  });
+
+  const index = new Map<string, number[]>();
+  keys.forEach((key, current) => {
+    if (keyGrams[current].length < prefixSize) {
+      for (let length = Math.max(0, key.length - max); length <= key.length + max; length++) {
+        byLength.get(length)?.forEach(other => {
+          if (other !== current) visit(other, current);
+        });
+      }
+      return;
+    }
+
+    const seen = new Set<number>();
+    keyGrams[current].sort(rarestFirst).slice(0, prefixSize).forEach(gram => {
+      const indexed = index.get(gram);
+      indexed?.forEach(other => {
+        if (seen.has(other) || Math.abs(keys[other].length - key.length) > max) return;
+        seen.add(other);
+        visit(other, current);
+      });
+      if (indexed) indexed.push(current);
+      else index.set(gram, [current]);
+    });
+  });
+};
+
+/**
+ * Groups rows whose key fields match. Exact matching compares values as they
+ * are; fuzzy matching ignores case and whitespace and allows a few edits, so
+ * "Jon  Smith" and "john smith" end up together. Rows with every key field
+ * empty are never grouped.
+ */
+export const findDuplicateGroups = (data: TableRow[], options: DuplicateOptions): DuplicateGroup[] => {
+  if (options.keyFieldIds.length === 0) return [];
+
+  // Rows sharing a key are duplicates in both modes
+  const byKey = new Map<string, string[]>();
+  data.forEach(row => {
+    const values = options.keyFieldIds.map(id => row[id]);
+    if (values.every(isEmptyValue)) return;
+    const key = values.map(options.mode === 'fuzzy' ? normalize : keyText).join('\u0001');
+    const ids = byKey.get(key);
+    if (ids) ids.push(row.id);
+    else byKey.set(key, [row.id]);
+  });
+
+  const keys = [...byKey.keys()];
+  // Union-find over keys, so near matches chain: a~b and b~c put a, b and c together
+  const parent = keys.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  if (options.mode === 'fuzzy' && options.maxDistance > 0) {
+    forEachFuzzyCandidate(keys, options.maxDistance, (a, b) => {
+      if (find(a) !== find(b) && editDistance(keys[a], keys[b], options.maxDistance) <= options.maxDistance) {
+        parent[find(b)] = find(a);
+      }
+    });
+  }
+
+  const rowIdsByRoot = new Map<number, Set<string>>();
+  keys.forEach((key, i) => {
+    const root = find(i);
+    const ids = rowIdsByRoot.get(root) ?? new Set<string>();
+    byKey.get(key)!.forEach(id => ids.add(id));
+    rowIdsByRoot.set(root, ids);
+  });
+
+  const position = new Map(data.map((row, index) => [row.id, index]));
+  return [...rowIdsByRoot.values()]
+    .filter(ids => ids.size > 1)
+    .map(ids => ({ rowIds: [...ids].sort((a, b) => position.get(a)! - position.get(b)!) }))
+    .sort((a, b) => position.get(a.rowIds[0])! - position.get(b.rowIds[0])!);
+};
+
+/**
+ * Starting point for a merge: keep the first row, and fill each of its empty
+ * fields from the first other row that has a value.
+ */
+export const defaultResolution = (rows: TableRow[], fields: Field[]): GroupResolution => {
+  const [keep] = rows;
+  return {
+    keepId: keep.id,
+    sources: Object.fromEntries(fields.map(field => [
+      field.id,
+      (isEmptyValue(keep[field.id]) ? rows.find(row => !isEmptyValue(row[field.id])) : undefined)?.id ?? keep.id
+    ]))
+  };
+};
+
+/**
+ * Settles duplicate groups: each group's kept row takes the chosen field
+ * values and stays where it was; the group's other rows are removed. Choices
+ * naming rows outside the group, left over from an earlier grouping, are
+ * ignored: the group's first row is kept and fields keep its own values.
+ */
+export const resolveDuplicates = (
+  data: TableRow[],
+  groups: DuplicateGroup[],
+  resolutions: GroupResolution[]
+): TableRow[] => {
+  const byId = new Map(data.map(row => [row.id, row]));
+  const merged = new Map<string, TableRow>();
+  const removed = new Set<string>();
+
+  groups.forEach((group, index) => {
+    const inGroup = (rowId: string) => group.rowIds.includes(rowId);
+    const { sources } = resolutions[index];
+    const keepId = inGroup(resolutions[index].keepId) ? resolutions[index].keepId : group.rowIds[0];
+    const values = Object.fromEntries(
+      Object.entries(sources)
+        .filter(([, rowId]) => inGroup(rowId))
+        .map(([fieldId, rowId]) => [fieldId, byId.get(rowId)?.[fieldId]])
+    );
+    merged.set(keepId, { ...byId.get(keepId)!, ...values, id: keepId });
+    group.rowIds.filter(id => id !== keepId).forEach(id => removed.add(id));
+  });
+
+  return data
+    .filter(row => !removed.has(row.id))
+    .map(row => merged.get(row.id) ?? row);
+};
@@ -0,0 +1,173 @@
+import * as XLSX from 'xlsx';
+import { Field, TableRow } from '../types';
+import { isEmptyValue, toPlainText } from './convert';
+import { parseDateParts, toExcelSerial } from './dates';
+import { formatDelimited } from './delimited';
+import { CURRENCY_SYMBOLS } from './fieldTypes';
+import { uniqueHeaderNames } from './importer';
+
+export type ExportFormat = 'xlsx' | 'csv' | 'json';
+
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le';
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  // Without the byte order mark, Excel reads UTF-8 CSVs as the system code page
+  { value: 'utf-8-bom', label: 'UTF-8 with BOM (Excel)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' }
+];
+
+export interface CsvOptions {
+  delimiter: string;
+  encoding: CsvEncoding;
+}
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
+
+const currencyFormat = (field: Field) => {
+  const code = field.currency || 'USD';
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => CURRENCY_SYMBOLS[s] === code);
+  const decimals = field.decimals ?? 2;
+  const number = `#,##0${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}`;
+  return symbol ? `"${symbol}"${number}` : `${number} "${code}"`;
+};
+
+/**
+ * A typed worksheet cell: numbers stay numbers with the field's number format,
+ * dates become real date cells, yes/no becomes a boolean. Anything that doesn't
+ * fit its field's type is written as text rather than dropped.
+ */
+const toCell = (value: unknown, field: Field): XLSX.CellObject | null => {
+  if (isEmptyValue(value)) return null;
+  switch (field.type) {
+    case 'number':
+    case 'rating':
+      if (typeof value === 'number') return { t: 'n', v: value };
+      break;
+    case 'currency':
+      if (typeof value === 'number') return { t: 'n', v: value, z: currencyFormat(field) };
+      break;
+    case 'percent':
+      // Stored as points (45 means 45%), Excel percentages are fractions
+      if (typeof value === 'number') {
+        const decimals = field.decimals ?? 0;
+        return { t: 'n', v: value / 100, z: `0${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}%` };
+      }
+      break;
+    case 'boolean':
+      return { t: 'b', v: Boolean(value) };
+    case 'date':
+    case 'datetime': {
+      const parts = parseDateParts(String(value), 'ISO');
+      if (parts) return { t: 'n', v: toExcelSerial(parts), z: field.type === 'date' ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm' };
+      break;
+    }
+    case 'formula':
+      if (typeof value === 'number') return { t: 'n', v: value };
+      if (typeof value === 'boolean') return { t: 'b', v: value };
+      break;
+  }
+  const text = toPlainText(value);
+  return text ? { t: 's', v: text } : null;
+};
+
+export const toWorkbook = (rows: TableRow[], fields: Field[], sheetName = 'Data'): XLSX.WorkBook => {
+  const sheet: XLSX.WorkSheet = {};
+  fields.forEach((field, col) => {
+    sheet[XLSX.utils.encode_cell({ r: 0, c: col })] = { t: 's', v: field.name };
+  });
+  rows.forEach((row, index) => {
+    fields.forEach((field, col) => {
+      const cell = toCell(row[field.id], field);
+      if (cell) sheet[XLSX.utils.encode_cell({ r: index + 1, c: col })] = cell;
+    });
+  });
+  sheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: Math.max(fields.length - 1, 0) } });
+
+  // Wide enough for the header and the longest value, within reason
+  sheet['!cols'] = fields.map(field => ({
+    wch: Math.min(MAX_COLUMN_WIDTH, Math.max(
+      MIN_COLUMN_WIDTH,
+      field.name.length + 2,
+      ...rows.slice(0, 1000).map(row => toPlainText(row[field.id]).length + 2)
+    ))
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  // Sheet names are limited to 31 characters and can't contain []:*?/\
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Data');
+  return workbook;
+};
+
+export const toCsv = (rows: TableRow[], fields: Field[], delimiter: string): string =>
+  formatDelimited([
+    fields.map(field => field.name),
+    ...rows.map(row => fields.map(field => toPlainText(row[field.id])))
+  ], delimiter);
+
+const encodeText = (text: string, encoding: CsvEncoding): BlobPart[] => {
+  if (encoding === 'utf-16le') {
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      bytes[2 + i * 2] = code & 0xff;
+      bytes[3 + i * 2] = code >> 8;
+    }
+    return [bytes];
+  }
+  return encoding === 'utf-8-bom' ? ['\ufeff', text] : [text];
+};
+
+// Records keyed by field name, the same shape the JSON import reads. Fields can
+// share a name, so repeats get the import's suffixes (Amount, Amount_2) rather
+// than overwriting each other
+export const toJson = (rows: TableRow[], fields: Field[]): string => {
+  const keys = uniqueHeaderNames(fields.map(field => field.name));
+  return JSON.stringify(rows.map(row => Object.fromEntries(fields.map((field, index) => [keys[index], row[field.id] ?? null]))), null, 2);
+};
+
+// Drops characters file systems reject, falling back when nothing is left
+export const safeFileName = (name: string | undefined, fallback: string) =>
+  (name ?? '').replace(/[\\/:*?"<>|]+/g, ' ').trim() || fallback;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportRows = (
+  rows: TableRow[],
+  fields: Field[],
+  fileName: string,
+  format: ExportFormat,
+  csv: CsvOptions = { delimiter: ',', encoding: 'utf-8' }
+) => {
+  switch (format) {
+    case 'xlsx':
+      XLSX.writeFile(toWorkbook(rows, fields, fileName), `${fileName}.xlsx`);
+      break;
+    case 'csv': {
+      const extension = csv.delimiter === '\t' ? 'tsv' : 'csv';
+      const type = csv.encoding === 'utf-16le' ? 'text/csv;charset=utf-16le' : 'text/csv;charset=utf-8';
+      downloadBlob(new Blob(encodeText(toCsv(rows, fields, csv.delimiter), csv.encoding), { type }), `${fileName}.${extension}`);
+      break;
+    }
+    case 'json':
+      downloadBlob(new Blob([toJson(rows, fields)], { type: 'application/json' }), `${fileName}.json`);
+      break;
+  }
+};
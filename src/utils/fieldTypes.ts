@@ -0,0 +1,118 @@
+import { Field, FieldType, TableRow } from '../types';
+import { formatDateForDisplay, formatDateTimeForDisplay } from './dates';
+
+export const RATING_MAX = 5;
+
+export const FIELD_TYPES: { value: FieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'datetime', label: 'Date & Time' },
+  { value: 'email', label: 'Email' },
+  { value: 'boolean', label: 'Yes/No' },
+  { value: 'select', label: 'Single Select' },
+  { value: 'multiselect', label: 'Multi Select' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'percent', label: 'Percent' },
+  { value: 'url', label: 'URL' },
+  { value: 'rating', label: 'Rating' },
+  { value: 'formula', label: 'Formula' }
+];
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'INR', 'CAD', 'AUD', 'CHF', 'CNY'];
+
+// Symbols recognized when detecting currency columns on import
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR'
+};
+
+const NUMERIC_TYPES: FieldType[] = ['number', 'currency', 'percent', 'rating'];
+
+export const isNumericType = (type: FieldType) => NUMERIC_TYPES.includes(type);
+
+export const hasOptions = (type: FieldType) => type === 'select' || type === 'multiselect';
+
+export const getTypeLabel = (type: FieldType) => FIELD_TYPES.find(t => t.value === type)?.label ?? type;
+
+export const getDefaultValue = (type: FieldType) => {
+  switch (type) {
+    case 'number':
+    case 'currency':
+    case 'percent':
+    case 'rating':
+      return 0;
+    case 'boolean': return false;
+    case 'multiselect': return [];
+    default: return '';
+  }
+};
+
+// Sensible starting config when a field is created with, or switched to, a type
+export const defaultConfigFor = (type: FieldType): Partial<Field> => {
+  switch (type) {
+    case 'currency': return { currency: 'USD', decimals: 2 };
+    case 'percent': return { decimals: 0 };
+    case 'formula': return { formula: '', required: false };
+    case 'select':
+    case 'multiselect':
+      return { options: [] };
+    default: return {};
+  }
+};
+
+// Distinct values already present in a column, used to seed select options
+export const collectOptions = (data: TableRow[], fieldId: string, existing: string[] = []) => {
+  const options = new Set(existing);
+  data.forEach(row => {
+    const value = row[fieldId];
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach(v => {
+      if (v !== null && v !== undefined && v !== '') options.add(String(v));
+    });
+  });
+  return [...options];
+};
+
+export const formatCellValue = (value: unknown, field: Pick<Field, 'type' | 'currency' | 'decimals' | 'timeZone'>): string => {
+  if (value === null || value === undefined) return '';
+
+  switch (field.type) {
+    case 'boolean': return value ? 'Yes' : 'No';
+    case 'date': return value ? formatDateForDisplay(String(value)) : '';
+    case 'datetime': return value ? formatDateTimeForDisplay(String(value), field.timeZone) : '';
+    case 'number': return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'currency': {
+      if (typeof value !== 'number') return String(value);
+      const decimals = field.decimals ?? 2;
+      return value.toLocaleString(undefined, {
+        style: 'currency',
+        currency: field.currency || 'USD',
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals
+      });
+    }
+    case 'percent': {
+      if (typeof value !== 'number') return String(value);
+      const decimals = field.decimals ?? 0;
+      // Stored as points (45 means 45%)
+      return (value / 100).toLocaleString(undefined, {
+        style: 'percent',
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals
+      });
+    }
+    case 'multiselect': return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'rating': {
+      const stars = Math.max(0, Math.min(RATING_MAX, Math.round(Number(value) || 0)));
+      return '★'.repeat(stars) + '☆'.repeat(RATING_MAX - stars);
+    }
+    case 'formula':
+      if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+      return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+    default: return String(value);
+  }
+};
@@ -0,0 +1,182 @@
+import { Field, FilterCondition, FilterGroup, FilterOperator, TableFilter, TableRow } from '../types';
+import { isEmptyValue, toPlainText } from './convert';
+import { parseDateParts, toExcelSerial } from './dates';
+import { isNumericType } from './fieldTypes';
+import { FormulaPlan } from './formula';
+import { generateId } from './id';
+
+// Decides which operators and inputs a column gets
+export type FilterKind = 'text' | 'number' | 'date' | 'boolean';
+
+type RowTest = (row: TableRow) => boolean;
+
+const EMPTY_OPERATORS: { value: FilterOperator; label: string }[] = [
+  { value: 'empty', label: 'Is empty' },
+  { value: 'notEmpty', label: 'Is not empty' }
+];
+
+export const FILTER_OPERATORS: Record<FilterKind, { value: FilterOperator; label: string }[]> = {
+  text: [
+    { value: 'contains', label: 'Contains' },
+    { value: 'equals', label: 'Equals' },
+    { value: 'matches', label: 'Matches regex' },
+    ...EMPTY_OPERATORS
+  ],
+  number: [{ value: 'between', label: 'Between' }, ...EMPTY_OPERATORS],
+  date: [{ value: 'between', label: 'Between' }, ...EMPTY_OPERATORS],
+  boolean: [
+    { value: 'isTrue', label: 'Is yes' },
+    { value: 'isFalse', label: 'Is no' }
+  ]
+};
+
+// Formula columns filter by the type their formula produces
+export const filterKind = (field: Field, plan?: FormulaPlan): FilterKind => {
+  if (field.type === 'formula') {
+    const resultType = plan?.resultTypes[field.id];
+    return resultType === 'number' || resultType === 'date' || resultType === 'boolean' ? resultType : 'text';
+  }
+  if (isNumericType(field.type)) return 'number';
+  if (field.type === 'date' || field.type === 'datetime') return 'date';
+  if (field.type === 'boolean') return 'boolean';
+  return 'text';
+};
+
+export const createCondition = (field: Field, plan?: FormulaPlan): FilterCondition => ({
+  id: generateId('filter'),
+  fieldId: field.id,
+  operator: FILTER_OPERATORS[filterKind(field, plan)][0].value
+});
+
+export const createFilterGroup = (join: FilterGroup['join'] = 'and'): FilterGroup => ({
+  id: generateId('group'),
+  join,
+  conditions: [],
+  groups: []
+});
+
+const hasText = (text?: string) => text !== undefined && text.trim() !== '';
+
+// Conditions still being filled in don't narrow anything down
+export const isConditionActive = (condition: FilterCondition) => {
+  switch (condition.operator) {
+    case 'contains':
+    case 'equals':
+    case 'matches':
+      return hasText(condition.value);
+    case 'between':
+      return hasText(condition.min) || hasText(condition.max);
+    default:
+      return true;
+  }
+};
+
+// A problem with what was typed, shown next to the input; such conditions are skipped
+export const conditionError = (condition: FilterCondition): string | null => {
+  if (condition.operator === 'matches' && hasText(condition.value)) {
+    try {
+      new RegExp(condition.value!);
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  return null;
+};
+
+export const countActiveConditions = (filter?: TableFilter) => {
+  const inGroup = (group: FilterGroup): number =>
+    group.conditions.filter(isConditionActive).length + group.groups.reduce((sum, child) => sum + inGroup(child), 0);
+  return filter ? filter.columns.filter(isConditionActive).length + (filter.query ? inGroup(filter.query) : 0) : 0;
+};
+
+const isBlank = (value: unknown) => isEmptyValue(value) || (Array.isArray(value) && value.length === 0);
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : isBlank(value) ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toSerial = (value: unknown) => {
+  const parts = parseDateParts(value, 'ISO');
+  return parts ? toExcelSerial(parts) : null;
+};
+
+// Lower and upper bounds as a test; the upper date bound takes in the whole day
+const rangeTest = (condition: FilterCondition, kind: FilterKind) => {
+  const read = kind === 'date' ? toSerial : toNumber;
+  const min = hasText(condition.min) ? read(condition.min!.trim()) : null;
+  const max = hasText(condition.max) ? read(condition.max!.trim()) : null;
+  return (value: unknown) => {
+    const current = read(value);
+    if (current === null) return false;
+    if (min !== null && current < min) return false;
+    if (max !== null && (kind === 'date' ? current >= max + 1 : current > max)) return false;
+    return true;
+  };
+};
+
+const conditionTest = (condition: FilterCondition, kind: FilterKind): ((value: unknown) => boolean) => {
+  const needle = (condition.value ?? '').trim().toLocaleLowerCase();
+  switch (condition.operator) {
+    case 'contains':
+      return value => toPlainText(value).toLocaleLowerCase().includes(needle);
+    case 'equals':
+      // Multiselect cells match when any of their options does
+      return value => (Array.isArray(value) ? value : [value])
+        .some(item => toPlainText(item).trim().toLocaleLowerCase() === needle);
+    case 'matches': {
+      const pattern = new RegExp(condition.value!, 'i');
+      return value => pattern.test(toPlainText(value));
+    }
+    case 'between':
+      return rangeTest(condition, kind);
+    case 'isTrue':
+      return value => value === true;
+    case 'isFalse':
+      return value => value !== true;
+    case 'empty':
+      return isBlank;
+    case 'notEmpty':
+      return value => !isBlank(value);
+  }
+};
+
+/**
+ * Turns a filter into a row test, compiling regexes and bounds once rather
+ * than per row. Unfinished or invalid conditions, and ones whose field no
+ * longer exists, are left out; a group with nothing left matches every row.
+ */
+export const compileFilter = (filter: TableFilter, fields: Field[], plan?: FormulaPlan): RowTest => {
+  const fieldById = new Map(fields.map(field => [field.id, field]));
+
+  const compileCondition = (condition: FilterCondition): RowTest | null => {
+    const field = fieldById.get(condition.fieldId);
+    if (!field || !isConditionActive(condition) || conditionError(condition)) return null;
+    const kind = filterKind(field, plan);
+    if (!FILTER_OPERATORS[kind].some(operator => operator.value === condition.operator)) return null;
+    const test = conditionTest(condition, kind);
+    return row => test(row[field.id]);
+  };
+
+  const compileGroup = (group: FilterGroup): RowTest | null => {
+    const tests = [
+      ...group.conditions.map(compileCondition),
+      ...group.groups.map(compileGroup)
+    ].filter((test): test is RowTest => test !== null);
+    if (tests.length === 0) return null;
+    return group.join === 'and'
+      ? row => tests.every(test => test(row))
+      : row => tests.some(test => test(row));
+  };
+
+  const tests = [
+    ...filter.columns.map(compileCondition),
+    filter.query ? compileGroup(filter.query) : null
+  ].filter((test): test is RowTest => test !== null);
+  return row => tests.every(test => test(row));
+};
+
+export const filterRows = (rows: TableRow[], fields: Field[], plan?: FormulaPlan, filter?: TableFilter): TableRow[] => {
+  if (!filter || countActiveConditions(filter) === 0) return rows;
+  return rows.filter(compileFilter(filter, fields, plan));
+};
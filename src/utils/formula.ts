@@ -0,0 +1,640 @@
+import { Field, TableRow } from '../types';
+import { isNumericType } from './fieldTypes';
+
+/**
+ * A small expression language for formula fields, e.g.
+ *   price * quantity
+ *   IF(status = "done", 1, 0)
+ *   DATEDIFF(end, start)
+ *   CONCAT(first, " ", last)
+ * Fields are referenced by name; names with spaces or symbols go in braces: {Unit Price}.
+ * Saved formulas refer to fields by id instead, {#field_abc}, so renames don't
+ * break them; see formulaForStorage and formulaForDisplay.
+ * Expressions are parsed into a tree and interpreted, never passed to eval.
+ */
+
+export type FormulaValue = number | string | boolean | null;
+export type FormulaResultType = 'number' | 'text' | 'boolean' | 'date';
+
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'field'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'paren'; value: '(' | ')'; position: number }
+  | { kind: 'comma'; position: number }
+  | { kind: 'end'; position: number };
+
+export type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'field'; name: string; position: number }
+  | { kind: 'unary'; operator: string; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number };
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, i);
+      tokens.push({ kind: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        // Backslash escapes the next character, e.g. "say \"hi\""
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) throw new FormulaError('Unterminated text value', i);
+      tokens.push({ kind: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = source.indexOf('}', i);
+      if (end === -1) throw new FormulaError('Missing closing "}"', i);
+      const name = source.slice(i + 1, end).trim();
+      if (!name) throw new FormulaError('Empty field reference', i);
+      tokens.push({ kind: 'field', value: name, position: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ kind: 'comma', position: i });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected "${char}"`, i);
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+};
+
+// Binding power of each infix operator; higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  '=': 1, '==': 1, '!=': 1, '<>': 1, '<': 1, '<=': 1, '>': 1, '>=': 1,
+  '&': 2,
+  '+': 3, '-': 3,
+  '*': 4, '/': 4, '%': 4,
+  '^': 6
+};
+const UNARY_PRECEDENCE = 5;
+
+export const parseFormula = (source: string): FormulaNode => {
+  if (!source.trim()) throw new FormulaError('Formula is empty', 0);
+
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const expect = (kind: 'paren' | 'comma', value?: string) => {
+    const token = next();
+    if (token.kind !== kind || (value && 'value' in token && token.value !== value)) {
+      throw new FormulaError(`Expected "${value ?? ','}"`, token.position);
+    }
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'field':
+        return { kind: 'field', name: token.value, position: token.position };
+      case 'identifier': {
+        if (peek().kind === 'paren' && (peek() as { value: string }).value === '(') {
+          next();
+          const args: FormulaNode[] = [];
+          if (!(peek().kind === 'paren' && (peek() as { value: string }).value === ')')) {
+            args.push(parseExpression(0));
+            while (peek().kind === 'comma') {
+              next();
+              args.push(parseExpression(0));
+            }
+          }
+          expect('paren', ')');
+          return { kind: 'call', name: token.value.toUpperCase(), args, position: token.position };
+        }
+        const upper = token.value.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') return { kind: 'literal', value: upper === 'TRUE' };
+        return { kind: 'field', name: token.value, position: token.position };
+      }
+      case 'paren':
+        if (token.value === '(') {
+          const inner = parseExpression(0);
+          expect('paren', ')');
+          return inner;
+        }
+        throw new FormulaError('Unexpected ")"', token.position);
+      case 'operator':
+        if (token.value === '-' || token.value === '+') {
+          return { kind: 'unary', operator: token.value, operand: parseExpression(UNARY_PRECEDENCE) };
+        }
+        throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+      case 'end':
+        throw new FormulaError('Formula ends unexpectedly', token.position);
+      default:
+        throw new FormulaError('Unexpected ","', token.position);
+    }
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrimary();
+
+    for (;;) {
+      const token = peek();
+      if (token.kind !== 'operator') break;
+      const precedence = PRECEDENCE[token.value];
+      if (precedence === undefined || precedence <= minPrecedence) break;
+      next();
+      // ^ is right-associative, everything else left-associative
+      const right = parseExpression(token.value === '^' ? precedence - 1 : precedence);
+      left = { kind: 'binary', operator: token.value, left, right };
+    }
+
+    return left;
+  };
+
+  const ast = parseExpression(0);
+  const trailing = peek();
+  if (trailing.kind !== 'end') {
+    throw new FormulaError('Unexpected input after the end of the formula', trailing.position);
+  }
+  return ast;
+};
+
+const toNumber = (value: FormulaValue): number => {
+  if (value === null || value === '') return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) throw new FormulaError(`"${value}" is not a number`);
+  return parsed;
+};
+
+const toText = (value: FormulaValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const toBoolean = (value: FormulaValue): boolean => {
+  if (typeof value === 'string') return value !== '' && value.toLowerCase() !== 'false';
+  return Boolean(value);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateParts = (value: FormulaValue): [number, number, number] => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(toText(value));
+  if (!match) throw new FormulaError(`"${toText(value)}" is not a date`);
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+};
+
+// Dates are compared as UTC calendar days so time zones can't shift the result
+const toDay = (value: FormulaValue): number => {
+  const [year, month, day] = toDateParts(value);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const compare = (operator: string, left: FormulaValue, right: FormulaValue): boolean => {
+  const bothNumeric = [left, right].every(v => typeof v === 'number' || (typeof v === 'string' && v.trim() !== '' && !Number.isNaN(Number(v))));
+  const a = bothNumeric ? toNumber(left) : toText(left).toLowerCase();
+  const b = bothNumeric ? toNumber(right) : toText(right).toLowerCase();
+  switch (operator) {
+    case '=':
+    case '==': return a === b;
+    case '!=':
+    case '<>': return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+};
+
+interface FunctionDefinition {
+  minArgs: number;
+  maxArgs: number;
+  returns: FormulaResultType | 'argument';
+  apply: (args: FormulaValue[]) => FormulaValue;
+}
+
+const numbers = (args: FormulaValue[]) => args.map(toNumber);
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  AND: { minArgs: 1, maxArgs: Infinity, returns: 'boolean', apply: args => args.every(toBoolean) },
+  OR: { minArgs: 1, maxArgs: Infinity, returns: 'boolean', apply: args => args.some(toBoolean) },
+  NOT: { minArgs: 1, maxArgs: 1, returns: 'boolean', apply: ([value]) => !toBoolean(value) },
+  CONCAT: { minArgs: 1, maxArgs: Infinity, returns: 'text', apply: args => args.map(toText).join('') },
+  UPPER: { minArgs: 1, maxArgs: 1, returns: 'text', apply: ([value]) => toText(value).toUpperCase() },
+  LOWER: { minArgs: 1, maxArgs: 1, returns: 'text', apply: ([value]) => toText(value).toLowerCase() },
+  TRIM: { minArgs: 1, maxArgs: 1, returns: 'text', apply: ([value]) => toText(value).trim() },
+  LEN: { minArgs: 1, maxArgs: 1, returns: 'number', apply: ([value]) => toText(value).length },
+  SUM: { minArgs: 1, maxArgs: Infinity, returns: 'number', apply: args => numbers(args).reduce((a, b) => a + b, 0) },
+  AVG: { minArgs: 1, maxArgs: Infinity, returns: 'number', apply: args => numbers(args).reduce((a, b) => a + b, 0) / args.length },
+  MIN: { minArgs: 1, maxArgs: Infinity, returns: 'number', apply: args => Math.min(...numbers(args)) },
+  MAX: { minArgs: 1, maxArgs: Infinity, returns: 'number', apply: args => Math.max(...numbers(args)) },
+  ABS: { minArgs: 1, maxArgs: 1, returns: 'number', apply: ([value]) => Math.abs(toNumber(value)) },
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    returns: 'number',
+    apply: ([value, digits]) => {
+      const factor = 10 ** toNumber(digits ?? 0);
+      return Math.round(toNumber(value) * factor) / factor;
+    }
+  },
+  DATEDIFF: {
+    minArgs: 2,
+    maxArgs: 3,
+    returns: 'number',
+    apply: ([end, start, unit]) => {
+      const days = toDay(end) - toDay(start);
+      switch (toText(unit ?? 'days').toLowerCase()) {
+        case 'days': return days;
+        case 'weeks': return Math.trunc(days / 7);
+        case 'months': return Math.trunc(days / 30.4375);
+        case 'years': return Math.trunc(days / 365.25);
+        default: throw new FormulaError('DATEDIFF unit must be "days", "weeks", "months" or "years"');
+      }
+    }
+  },
+  TODAY: {
+    minArgs: 0,
+    maxArgs: 0,
+    returns: 'date',
+    apply: () => {
+      const now = new Date();
+      return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    }
+  },
+  YEAR: { minArgs: 1, maxArgs: 1, returns: 'number', apply: ([value]) => toDateParts(value)[0] },
+  MONTH: { minArgs: 1, maxArgs: 1, returns: 'number', apply: ([value]) => toDateParts(value)[1] },
+  DAY: { minArgs: 1, maxArgs: 1, returns: 'number', apply: ([value]) => toDateParts(value)[2] },
+  COALESCE: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returns: 'argument',
+    apply: args => args.find(value => value !== null && value !== '') ?? null
+  }
+};
+
+export const FORMULA_FUNCTIONS = ['IF', ...Object.keys(FUNCTIONS)];
+
+const readField = (value: unknown): FormulaValue => {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+  return String(value);
+};
+
+const evaluate = (node: FormulaNode, row: TableRow, fieldIds: Map<string, string>): FormulaValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return readField(row[fieldIds.get(node.name)!]);
+    case 'unary': {
+      const value = toNumber(evaluate(node.operand, row, fieldIds));
+      return node.operator === '-' ? -value : value;
+    }
+    case 'binary': {
+      const left = evaluate(node.left, row, fieldIds);
+      const right = evaluate(node.right, row, fieldIds);
+      switch (node.operator) {
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new FormulaError('Division by zero');
+          return toNumber(left) / divisor;
+        }
+        case '%': return toNumber(left) % toNumber(right);
+        case '^': return toNumber(left) ** toNumber(right);
+        case '&': return toText(left) + toText(right);
+        default: return compare(node.operator, left, right);
+      }
+    }
+    case 'call': {
+      // IF only evaluates the branch it takes
+      if (node.name === 'IF') {
+        const condition = toBoolean(evaluate(node.args[0], row, fieldIds));
+        const branch = condition ? node.args[1] : node.args[2];
+        return branch ? evaluate(branch, row, fieldIds) : null;
+      }
+      const fn = FUNCTIONS[node.name];
+      return fn.apply(node.args.map(arg => evaluate(arg, row, fieldIds)));
+    }
+  }
+};
+
+const fieldResultType = (field: Field, formulaTypes: Record<string, FormulaResultType>): FormulaResultType => {
+  if (field.type === 'formula') return formulaTypes[field.id] ?? 'text';
+  if (isNumericType(field.type)) return 'number';
+  if (field.type === 'boolean') return 'boolean';
+  if (field.type === 'date' || field.type === 'datetime') return 'date';
+  return 'text';
+};
+
+const inferType = (
+  node: FormulaNode,
+  fieldsByName: Map<string, Field>,
+  formulaTypes: Record<string, FormulaResultType>
+): FormulaResultType => {
+  switch (node.kind) {
+    case 'literal':
+      return typeof node.value === 'number' ? 'number' : typeof node.value === 'boolean' ? 'boolean' : 'text';
+    case 'field':
+      return fieldResultType(fieldsByName.get(node.name)!, formulaTypes);
+    case 'unary':
+      return 'number';
+    case 'binary':
+      if (node.operator === '&') return 'text';
+      return PRECEDENCE[node.operator] === 1 ? 'boolean' : 'number';
+    case 'call': {
+      if (node.name === 'IF' || FUNCTIONS[node.name]?.returns === 'argument') {
+        const branches = node.name === 'IF' ? node.args.slice(1) : node.args;
+        const types = new Set(branches.map(arg => inferType(arg, fieldsByName, formulaTypes)));
+        return types.size === 1 ? [...types][0] : 'text';
+      }
+      return FUNCTIONS[node.name].returns as FormulaResultType;
+    }
+  }
+};
+
+// Walks the tree checking function names/arity and collecting referenced field names
+const collectReferences = (node: FormulaNode, references: { name: string; position: number }[]) => {
+  switch (node.kind) {
+    case 'field':
+      references.push({ name: node.name, position: node.position });
+      break;
+    case 'unary':
+      collectReferences(node.operand, references);
+      break;
+    case 'binary':
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case 'call': {
+      const [minArgs, maxArgs] = node.name === 'IF' ? [2, 3] : [FUNCTIONS[node.name]?.minArgs, FUNCTIONS[node.name]?.maxArgs];
+      if (minArgs === undefined) throw new FormulaError(`Unknown function ${node.name}`, node.position);
+      if (node.args.length < minArgs || node.args.length > maxArgs) {
+        const expected = minArgs === maxArgs ? `${minArgs}` : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs}-${maxArgs}`;
+        throw new FormulaError(`${node.name} expects ${expected} argument${minArgs === 1 && maxArgs === 1 ? '' : 's'}`, node.position);
+      }
+      node.args.forEach(arg => collectReferences(arg, references));
+      break;
+    }
+  }
+};
+
+// Marks a braced reference as a field id rather than a name
+const ID_PREFIX = '#';
+
+// Ids first; then exact name, then case-insensitive, so `Price` and `price` both resolve
+const resolveField = (name: string, fields: Field[]) => {
+  if (name.startsWith(ID_PREFIX)) return fields.find(field => field.id === name.slice(ID_PREFIX.length));
+  return fields.find(field => field.name === name) ||
+    fields.find(field => field.name.toLowerCase() === name.toLowerCase());
+};
+
+// Plain identifiers can be written bare, anything else needs braces
+export const referenceFor = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !/^(true|false)$/i.test(name) ? name : `{${name}}`;
+
+// Where each field reference sits in the source, for rewriting references in place
+const referenceSpans = (source: string) => {
+  const tokens = tokenize(source);
+  return tokens.flatMap((token, i) => {
+    if (token.kind === 'field') {
+      return [{ name: token.value, start: token.position, end: source.indexOf('}', token.position) + 1 }];
+    }
+    if (token.kind !== 'identifier') return [];
+    const next = tokens[i + 1];
+    const isCall = next.kind === 'paren' && next.value === '(';
+    if (isCall || /^(true|false)$/i.test(token.value)) return [];
+    return [{ name: token.value, start: token.position, end: token.position + token.value.length }];
+  });
+};
+
+// Replaces references for which `replace` returns text; formulas that don't tokenize are left alone
+const rewriteReferences = (source: string, replace: (name: string) => string | null) => {
+  let spans: ReturnType<typeof referenceSpans>;
+  try {
+    spans = referenceSpans(source);
+  } catch {
+    return source;
+  }
+  // Back to front, so the spans still to come keep their positions
+  return spans.reduceRight((result, span) => {
+    const replacement = replace(span.name);
+    return replacement === null ? result : result.slice(0, span.start) + replacement + result.slice(span.end);
+  }, source);
+};
+
+// Turns references to existing fields into id references; unknown names stay as typed
+export const formulaForStorage = (source: string, fields: Field[]) =>
+  rewriteReferences(source, name => {
+    if (name.startsWith(ID_PREFIX)) return null;
+    const field = resolveField(name, fields);
+    return field ? `{${ID_PREFIX}${field.id}}` : null;
+  });
+
+// Shows id references by the field's current name; references to deleted fields stay as ids
+export const formulaForDisplay = (source: string, fields: Field[]) =>
+  rewriteReferences(source, name => {
+    if (!name.startsWith(ID_PREFIX)) return null;
+    const field = resolveField(name, fields);
+    return field ? referenceFor(field.name) : null;
+  });
+
+interface CompiledFormula {
+  ast: FormulaNode;
+  fieldIds: Map<string, string>;
+  dependencies: string[];
+}
+
+const compileFormula = (field: Field, fields: Field[]): CompiledFormula => {
+  const ast = parseFormula(field.formula || '');
+  const references: { name: string; position: number }[] = [];
+  collectReferences(ast, references);
+
+  const fieldIds = new Map<string, string>();
+  references.forEach(({ name, position }) => {
+    const target = resolveField(name, fields);
+    if (!target) {
+      throw new FormulaError(name.startsWith(ID_PREFIX) ? 'Refers to a deleted field' : `Unknown field "${name}"`, position);
+    }
+    if (target.id === field.id) throw new FormulaError('A formula cannot refer to its own field', position);
+    fieldIds.set(name, target.id);
+  });
+
+  return { ast, fieldIds, dependencies: [...new Set(fieldIds.values())] };
+};
+
+export interface FormulaPlan {
+  // Per formula field: a parse, reference or cycle problem
+  errors: Record<string, string>;
+  resultTypes: Record<string, FormulaResultType>;
+  // Field ids each formula reads, directly
+  dependencies: Record<string, string[]>;
+  hasFormulas: boolean;
+  computeRow: (row: TableRow) => TableRow;
+  computeRows: (rows: TableRow[]) => TableRow[];
+}
+
+/**
+ * Compiles every formula field, orders them so each formula runs after the
+ * formulas it depends on, and flags cycles. Computed rows are cached per row
+ * object, so editing one row only recomputes that row.
+ */
+export const buildFormulaPlan = (fields: Field[]): FormulaPlan => {
+  const formulaFields = fields.filter(field => field.type === 'formula');
+  const errors: Record<string, string> = {};
+  const compiled = new Map<string, CompiledFormula>();
+
+  formulaFields.forEach(field => {
+    try {
+      compiled.set(field.id, compileFormula(field, fields));
+    } catch (error) {
+      // Positions are counted in the formula as it's shown, with fields by name
+      errors[field.id] = error instanceof FormulaError && error.position !== undefined
+        ? `${error.message} (at character ${formulaForDisplay((field.formula || '').slice(0, error.position), fields).length + 1})`
+        : error instanceof Error ? error.message : 'Invalid formula';
+    }
+  });
+
+  // Depth-first topological sort; a node seen again while still "visiting" closes a cycle
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string, path: string[]) => {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      const cycle = path.slice(path.indexOf(id));
+      const names = [...cycle, id].map(fieldId => fields.find(f => f.id === fieldId)?.name).join(' → ');
+      cycle.forEach(fieldId => {
+        errors[fieldId] = `Circular reference: ${names}`;
+      });
+      return;
+    }
+    const formula = compiled.get(id);
+    if (!formula) return;
+    state.set(id, 'visiting');
+    formula.dependencies.forEach(dep => visit(dep, [...path, id]));
+    state.set(id, 'done');
+    order.push(id);
+  };
+  compiled.forEach((_, id) => visit(id, []));
+
+  const runnable = order.filter(id => !errors[id]);
+  const fieldsByName = new Map<string, Field>();
+  const resultTypes: Record<string, FormulaResultType> = {};
+  runnable.forEach(id => {
+    const formula = compiled.get(id)!;
+    formula.fieldIds.forEach((fieldId, name) => fieldsByName.set(name, fields.find(f => f.id === fieldId)!));
+    resultTypes[id] = inferType(formula.ast, fieldsByName, resultTypes);
+  });
+
+  const cache = new WeakMap<TableRow, TableRow>();
+  const computeRow = (row: TableRow): TableRow => {
+    if (formulaFields.length === 0) return row;
+    const cached = cache.get(row);
+    if (cached) return cached;
+
+    const computed: TableRow = { ...row };
+    formulaFields.forEach(field => {
+      computed[field.id] = null;
+    });
+    runnable.forEach(id => {
+      const formula = compiled.get(id)!;
+      try {
+        const value = evaluate(formula.ast, computed, formula.fieldIds);
+        computed[id] = typeof value === 'number' && !Number.isFinite(value) ? null : value;
+      } catch {
+        // Bad input in this row (text in a sum, division by zero): leave the cell empty
+        computed[id] = null;
+      }
+    });
+    cache.set(row, computed);
+    return computed;
+  };
+
+  return {
+    errors,
+    resultTypes,
+    dependencies: Object.fromEntries([...compiled].map(([id, formula]) => [id, formula.dependencies])),
+    hasFormulas: formulaFields.length > 0,
+    computeRow,
+    computeRows: rows => (formulaFields.length === 0 ? rows : rows.map(computeRow))
+  };
+};
+
+export const isNumericField = (field: Field, plan: FormulaPlan) =>
+  field.type === 'formula' ? plan.resultTypes[field.id] === 'number' : isNumericType(field.type);
+
+// Validates a formula against the schema without needing the whole plan
+export const checkFormula = (field: Field, fields: Field[]): { error?: string; resultType?: FormulaResultType; dependencies: string[] } => {
+  const candidate = fields.some(f => f.id === field.id)
+    ? fields.map(f => (f.id === field.id ? field : f))
+    : [...fields, field];
+  const plan = buildFormulaPlan(candidate);
+  return {
+    error: plan.errors[field.id],
+    resultType: plan.resultTypes[field.id],
+    dependencies: plan.dependencies[field.id] || []
+  };
+};
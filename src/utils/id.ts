@@ -0,0 +1,4 @@
+// Date.now() alone collides when several ids are created in the same tick
+// (imports, duplication), so a short random suffix is appended.
+export const generateId = (prefix: string): string =>
+  `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,135 @@
+import { Field, TableRow } from '../types';
+import { isEmptyValue } from './convert';
+import { FailurePolicy, ImportIssue, RowOrigin, convertImportValue } from './importer';
+
+export const SKIP_COLUMN = '__skip__';
+export const NEW_FIELD = '__new__';
+
+export type ImportMode = 'append' | 'replace' | 'upsert';
+
+// Imported field id -> existing field id, NEW_FIELD or SKIP_COLUMN
+export type ColumnMapping = Record<string, string>;
+
+export interface MergeOptions {
+  // `origins` says where each row came from in the file, for reporting issues
+  imported: { fields: Field[]; data: TableRow[]; origins?: RowOrigin[] };
+  existingFields: Field[];
+  existingData: TableRow[];
+  mapping: ColumnMapping;
+  mode: ImportMode;
+  // Existing field whose value identifies a record, for upserts
+  keyFieldId?: string;
+  // What to do with values that don't fit their target field, keyed by imported field id
+  policies?: Record<string, FailurePolicy>;
+}
+
+export interface MergeResult {
+  fields: Field[];
+  data: TableRow[];
+  added: number;
+  updated: number;
+  issues: ImportIssue[];
+  // Rows left out because of a 'skip' policy
+  skippedRows: number;
+}
+
+// "Order ID", "order_id" and "orderId" all match
+const normalizeName = (name: string) => name.toLowerCase().replace(/[\s_-]+/g, '');
+
+export const autoMapColumns = (importedFields: Field[], existingFields: Field[]): ColumnMapping => {
+  const used = new Set<string>();
+  return Object.fromEntries(importedFields.map(field => {
+    const match = existingFields.find(existing =>
+      existing.type !== 'formula' &&
+      !used.has(existing.id) &&
+      normalizeName(existing.name) === normalizeName(field.name)
+    );
+    if (match) used.add(match.id);
+    return [field.id, match ? match.id : NEW_FIELD];
+  }));
+};
+
+const keyOf = (value: unknown) => (isEmptyValue(value) ? null : String(value).trim().toLowerCase());
+
+/**
+ * Applies an import to an existing dataset: maps columns onto fields, adds
+ * new fields, and appends, replaces or upserts rows.
+ */
+export const mergeImport = ({ imported, existingFields, existingData, mapping, mode, keyFieldId, policies = {} }: MergeOptions): MergeResult => {
+  const newFields = imported.fields.filter(field => mapping[field.id] === NEW_FIELD);
+  const fields = [...existingFields, ...newFields];
+  const targets = imported.fields
+    .filter(field => mapping[field.id] && mapping[field.id] !== SKIP_COLUMN)
+    .map(field => ({
+      source: field,
+      target: mapping[field.id] === NEW_FIELD ? field : existingFields.find(f => f.id === mapping[field.id])!
+    }))
+    .filter(({ target }) => target);
+
+  // Target types may differ from the detected ones, so values that don't fit
+  // are reported and handled like any other import failure
+  const issues: ImportIssue[] = [];
+  const toValues = (row: TableRow, rowIndex: number) => {
+    let skip = false;
+    const values = Object.fromEntries(targets.map(({ source, target }) => {
+      const converted = convertImportValue(
+        row[source.id],
+        target.type,
+        { timeZone: target.timeZone },
+        policies[source.id] ?? 'empty',
+        { ...(imported.origins?.[rowIndex] ?? { row: rowIndex + 1 }), column: source.name },
+        issues
+      );
+      if (converted.skip) skip = true;
+      return [target.id, converted.value];
+    }));
+    return skip ? null : values;
+  };
+
+  if (mode === 'append' || mode === 'replace') {
+    const rows = imported.data.flatMap((row, rowIndex) => {
+      const values = toValues(row, rowIndex);
+      return values ? [{ id: row.id, ...values }] : [];
+    });
+    return {
+      fields,
+      data: mode === 'append' ? [...existingData, ...rows] : rows,
+      added: rows.length,
+      updated: 0,
+      issues,
+      skippedRows: imported.data.length - rows.length
+    };
+  }
+
+  // Upsert: update the first row whose key matches, otherwise append
+  const data = [...existingData];
+  const indexByKey = new Map<string, number>();
+  data.forEach((row, index) => {
+    const key = keyOf(row[keyFieldId!]);
+    if (key !== null && !indexByKey.has(key)) indexByKey.set(key, index);
+  });
+
+  let added = 0;
+  let updated = 0;
+  let skippedRows = 0;
+  imported.data.forEach((row, rowIndex) => {
+    const values = toValues(row, rowIndex);
+    if (!values) {
+      skippedRows++;
+      return;
+    }
+    const key = keyOf(values[keyFieldId!]);
+    const index = key === null ? undefined : indexByKey.get(key);
+    if (index !== undefined) {
+      // The key matched case-insensitively; keep the existing spelling
+      data[index] = { ...data[index], ...values, [keyFieldId!]: data[index][keyFieldId!] };
+      updated++;
+    } else {
+      data.push({ id: row.id, ...values });
+      if (key !== null) indexByKey.set(key, data.length - 1);
+      added++;
+    }
+  });
+
+  return { fields, data, added, updated, issues, skippedRows };
+};
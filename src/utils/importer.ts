@@ -0,0 +1,522 @@
+import * as XLSX from 'xlsx';
+import { Field, FieldType, TableRow } from '../types';
+import { ConversionOptions, convertValue, emptyValueFor, splitOptions, tryConvertValue } from './convert';
+import { CURRENCIES, CURRENCY_SYMBOLS } from './fieldTypes';
+import { DateFormat, detectDateFormat, hasTime, parseDateParts, toDateString, toDateTimeString } from './dates';
+import { generateId } from './id';
+
+const CURRENCY_AMOUNT_PATTERN = new RegExp(
+  `^\\(?-?[${Object.keys(CURRENCY_SYMBOLS).join('')}]\\s?-?\\d[\\d,]*(\\.\\d+)?\\)?$|^-?\\d[\\d,]*(\\.\\d+)?\\s?(${CURRENCIES.join('|')})$`
+);
+const PERCENT_PATTERN = /^-?\d+(\.\d+)?\s*%$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)\S+$/i;
+const STAR_RATING_PATTERN = /^★{1,5}☆*$/;
+
+// Text columns with at most this many distinct values are imported as selects
+const MAX_SELECT_OPTIONS = 12;
+
+// A sheet as a grid of cells; the first row holds the headers
+export interface SheetData {
+  name: string;
+  rows: unknown[][];
+  // Sheet row number of rows[0], since a worksheet's cells can start below row 1
+  firstRow?: number;
+}
+
+// Where a grid row came from: its row in the sheet (or record in a JSON file),
+// and which sheet when several are stacked
+export interface RowOrigin {
+  row: number;
+  sheet?: string;
+}
+
+export interface SheetSummary {
+  name: string;
+  headers: string[];
+  // Non-empty rows below the header
+  rowCount: number;
+}
+
+// What happens to a row when one of its values doesn't fit the column's type
+export type FailurePolicy = 'coerce' | 'empty' | 'skip';
+
+export const FAILURE_POLICIES: { value: FailurePolicy; label: string }[] = [
+  { value: 'empty', label: 'Leave empty' },
+  { value: 'coerce', label: 'Use default (0, No, ...)' },
+  { value: 'skip', label: 'Skip the row' }
+];
+
+// A value that couldn't be converted to its column's type
+export interface ImportIssue {
+  // Row number in the source sheet, or record number in a JSON file
+  row: number;
+  // Set when the row came from one of several stacked sheets
+  sheet?: string;
+  column: string;
+  value: unknown;
+  reason: string;
+  policy: FailurePolicy;
+}
+
+export interface ImportResult {
+  fields: Field[];
+  data: TableRow[];
+  // Where each row in `data` came from, in the same order
+  origins?: RowOrigin[];
+  // Inference behind each field's type, in the same order as `fields`
+  columns?: ColumnInference[];
+  issues?: ImportIssue[];
+  // Rows left out because of a 'skip' policy
+  skippedRows?: number;
+}
+
+const isEmptyCell = (cell: unknown) => cell === null || cell === undefined || cell === '';
+
+/**
+ * Converts one imported value strictly. A value that doesn't fit is recorded
+ * in `issues` and handled by `policy`: coerced to the lenient default, left
+ * empty, or its row marked to be skipped.
+ */
+export const convertImportValue = (
+  value: unknown,
+  type: FieldType,
+  options: ConversionOptions,
+  policy: FailurePolicy,
+  where: Pick<ImportIssue, 'row' | 'sheet' | 'column'>,
+  issues: ImportIssue[]
+): { value: unknown; skip: boolean } => {
+  const result = tryConvertValue(value, type, options);
+  if (result.ok) return { value: result.value, skip: false };
+  issues.push({ ...where, value, reason: result.reason, policy });
+  return {
+    value: policy === 'coerce' ? convertValue(value, type, options) : emptyValueFor(type),
+    skip: policy === 'skip'
+  };
+};
+
+const isEmptyRow = (row: unknown[]) => !row.some(cell => !isEmptyCell(cell));
+
+const TIME_FORMAT_PATTERN = /[hs]/i;
+// Strips quoted literals and [colour]/[$-locale] sections so only format codes remain
+const formatCodes = (format: string) => format.replace(/"[^"]*"|\[[^\]]*\]/g, '');
+
+/**
+ * Excel stores dates as serial day numbers with a date number format. Turns
+ * those cells into ISO strings straight from the serial, so no Date object
+ * (and no time zone) is involved. Needs the workbook read with `cellNF`.
+ */
+const convertDateCells = (sheet: XLSX.WorkSheet, date1904: boolean): XLSX.WorkSheet => {
+  const converted: XLSX.WorkSheet = { ...sheet };
+  Object.keys(sheet).forEach(address => {
+    if (address.startsWith('!')) return;
+    const cell = sheet[address] as XLSX.CellObject;
+    if (cell.t !== 'n' || !cell.z || !XLSX.SSF.is_date(cell.z)) return;
+    const code = XLSX.SSF.parse_date_code(cell.v, { date1904 });
+    if (!code) return;
+    const parts = { year: code.y, month: code.m, day: code.d, hour: code.H, minute: code.M, second: code.S };
+    const withTime = TIME_FORMAT_PATTERN.test(formatCodes(String(cell.z))) || code.H + code.M + code.S > 0;
+    converted[address] = { t: 's', v: withTime ? toDateTimeString(parts) : toDateString(parts) };
+  });
+  return converted;
+};
+
+export const readWorkbookSheets = (workbook: XLSX.WorkBook): SheetData[] => {
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    return {
+      name,
+      // Rows start at the top of the sheet's used range; blank rows inside it are kept
+      rows: XLSX.utils.sheet_to_json<unknown[]>(convertDateCells(sheet, date1904), { header: 1 }),
+      firstRow: sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1
+    };
+  });
+};
+
+export const summarizeSheet = (sheet: SheetData): SheetSummary => ({
+  name: sheet.name,
+  headers: Array.from(sheet.rows[0] || [], header => String(header ?? '').trim()),
+  rowCount: sheet.rows.slice(1).filter(row => !isEmptyRow(row)).length
+});
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+// Same column names, in any order, ignoring case and surrounding whitespace
+export const headersMatch = (a: string[], b: string[]) => {
+  const left = a.map(normalizeHeader).filter(Boolean).sort();
+  const right = b.map(normalizeHeader).filter(Boolean).sort();
+  return left.length === right.length && left.every((header, i) => header === right[i]);
+};
+
+/**
+ * Stacks sheets with matching headers into one grid, lining each sheet's
+ * columns up with the first sheet's header order.
+ */
+export const appendSheets = (sheets: SheetData[]): unknown[][] => {
+  const [first, ...rest] = sheets;
+  const headers = summarizeSheet(first).headers;
+  const rows = [...first.rows];
+
+  rest.forEach(sheet => {
+    const sheetHeaders = summarizeSheet(sheet).headers.map(normalizeHeader);
+    const columnMap = headers.map(header => sheetHeaders.indexOf(normalizeHeader(header)));
+    sheet.rows.slice(1).forEach(row => {
+      rows.push(columnMap.map(index => (index === -1 ? undefined : row[index])));
+    });
+  });
+
+  return rows;
+};
+
+// Where each row of a sheet, or of sheets stacked by appendSheets, came from
+export const sheetRowOrigins = (sheets: SheetData[]): RowOrigin[] => {
+  const originsOf = (sheet: SheetData, skip: number) => sheet.rows.slice(skip).map((_, index) => ({
+    row: (sheet.firstRow ?? 1) + skip + index,
+    ...(sheets.length > 1 ? { sheet: sheet.name } : {})
+  }));
+  const [first, ...rest] = sheets;
+  // appendSheets keeps only the first sheet's header row
+  return [...originsOf(first, 0), ...rest.flatMap(sheet => originsOf(sheet, 1))];
+};
+
+// Where the table sits in a sheet: exported reports often have title rows
+// above the headers and totals rows below the data
+export interface SheetLayout {
+  // Index of the first header row; rows above it are skipped
+  headerRow: number;
+  // Stacked header lines, e.g. a merged "Q1" above "Sales", combined into "Q1 Sales"
+  headerRows: number;
+  // Rows to leave off the end, counted from the last row with data
+  skipTrailing: number;
+  // Rows with a cell containing this text (any case) are dropped, e.g. "Total"
+  dropText: string;
+}
+
+export const DEFAULT_LAYOUT: SheetLayout = { headerRow: 0, headerRows: 1, skipTrailing: 0, dropText: '' };
+
+export type LayoutRowRole = 'skipped' | 'header' | 'data' | 'dropped';
+
+// Rows scanned when looking for the header row
+const HEADER_SCAN_ROWS = 20;
+
+const filledCount = (row: unknown[] = []) => row.filter(cell => !isEmptyCell(cell)).length;
+
+/**
+ * Guesses the header row as the first row that spans most of the table's
+ * width, which skips title and spacer rows above it.
+ */
+export const detectLayout = (grid: unknown[][]): SheetLayout => {
+  const widest = Math.max(0, ...grid.slice(0, HEADER_SCAN_ROWS * 2).map(row => filledCount(row)));
+  const threshold = Math.max(1, Math.ceil(widest * 0.6));
+  const headerRow = grid.slice(0, HEADER_SCAN_ROWS).findIndex(row => filledCount(row) >= threshold);
+  return { ...DEFAULT_LAYOUT, headerRow: Math.max(0, headerRow) };
+};
+
+const lastFilledRow = (grid: unknown[][]) => {
+  let lastRow = grid.length - 1;
+  while (lastRow >= 0 && isEmptyRow(grid[lastRow])) lastRow--;
+  return lastRow;
+};
+
+// `lastRow` is the index of the sheet's last row with data; trailing rows are counted back from it
+export const rowRole = (
+  row: unknown[],
+  index: number,
+  lastRow: number,
+  { headerRow, headerRows, skipTrailing, dropText }: SheetLayout
+): LayoutRowRole => {
+  const needle = dropText.trim().toLowerCase();
+  if (index < headerRow) return 'skipped';
+  if (index < headerRow + headerRows) return 'header';
+  if (index > lastRow - skipTrailing) return 'skipped';
+  if (needle && row.some(cell => String(cell ?? '').toLowerCase().includes(needle))) return 'dropped';
+  return 'data';
+};
+
+export const layoutRowRoles = (grid: unknown[][], layout: SheetLayout): LayoutRowRole[] => {
+  const lastRow = lastFilledRow(grid);
+  return grid.map((row, index) => rowRole(row, index, lastRow, layout));
+};
+
+// The rows the layout picker shows, so large sheets needn't leave the import worker
+export interface GridSample {
+  head: unknown[][];
+  // Last rows of the sheet; empty when `head` already holds every row
+  tail: unknown[][];
+  rowCount: number;
+  lastRow: number;
+}
+
+export const sampleGrid = (grid: unknown[][], headSize = 8, tailSize = 3): GridSample => {
+  const short = grid.length <= headSize + tailSize;
+  return {
+    head: short ? grid : grid.slice(0, headSize),
+    tail: short ? [] : grid.slice(-tailSize),
+    rowCount: grid.length,
+    lastRow: lastFilledRow(grid)
+  };
+};
+
+// Merged cells only hold a value in their first column, so upper header lines
+// carry each value rightwards until the next one
+const combineHeaderLines = (lines: unknown[][]): string[] => {
+  const width = Math.max(0, ...lines.map(line => line.length));
+  const filled = lines.map((line, lineIndex) => {
+    let carried = '';
+    return Array.from({ length: width }, (_, column) => {
+      const text = String(line[column] ?? '').trim();
+      if (lineIndex === lines.length - 1) return text;
+      carried = text || carried;
+      return carried;
+    });
+  });
+  return Array.from({ length: width }, (_, column) => {
+    const parts = filled.map(line => line[column]).filter(Boolean);
+    return parts.filter((part, index) => part !== parts[index - 1]).join(' ');
+  });
+};
+
+// Cuts a sheet down to its header row followed by the data rows the layout keeps
+export const applyLayout = (grid: unknown[][], layout: SheetLayout): unknown[][] => {
+  const roles = layoutRowRoles(grid, layout);
+  const headerLines = grid.filter((_, index) => roles[index] === 'header');
+  const headers = headerLines.length > 1 ? combineHeaderLines(headerLines) : Array.from(headerLines[0] ?? []);
+  return [headers, ...grid.filter((_, index) => roles[index] === 'data')];
+};
+
+// Blank headers become "Column N" and repeats get a suffix: Amount, Amount_2, Amount_3
+export const uniqueHeaderNames = (headers: unknown[]): string[] => {
+  const used = new Set<string>();
+  return headers.map((header, index) => {
+    const base = String(header ?? '').trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const BOOLEAN_WORDS = ['true', 'false', 'yes', 'no', 'y', 'n'];
+const LEADING_ZERO_PATTERN = /^0\d+$/;
+
+// Columns are scored on at most this many values, spread evenly through the column
+const MAX_SAMPLE_SIZE = 1000;
+// Share of values a type must fit before it beats plain text
+const MIN_CONFIDENCE = 0.8;
+
+// Most specific first: when several types fit equally well, the earlier one wins
+const CANDIDATE_TYPES: FieldType[] = ['boolean', 'rating', 'percent', 'currency', 'number', 'date', 'datetime', 'email', 'url'];
+
+const isNumeric = (value: unknown) =>
+  typeof value === 'number' ||
+  (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) && !isNaN(parseFloat(value)));
+
+const fitsType = (value: unknown, type: FieldType, dateFormat: DateFormat): boolean => {
+  const str = String(value).trim();
+  switch (type) {
+    case 'boolean':
+      // 0/1 counts as boolean so flag columns aren't imported as numbers
+      return typeof value === 'boolean' || BOOLEAN_WORDS.includes(str.toLowerCase()) || str === '0' || str === '1';
+    case 'rating':
+      return STAR_RATING_PATTERN.test(str);
+    case 'percent':
+      return PERCENT_PATTERN.test(str);
+    case 'currency':
+      return typeof value === 'string' && CURRENCY_AMOUNT_PATTERN.test(str);
+    case 'number':
+      return isNumeric(value) && !LEADING_ZERO_PATTERN.test(str);
+    case 'date': {
+      // Only dates without a time of day; a column of timestamps is a datetime
+      const parts = typeof value === 'string' ? parseDateParts(str, dateFormat) : null;
+      return parts !== null && !hasTime(parts);
+    }
+    case 'datetime':
+      return typeof value === 'string' && parseDateParts(str, dateFormat) !== null;
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(str);
+    case 'url':
+      return URL_PATTERN.test(str);
+    default:
+      return true;
+  }
+};
+
+export interface ColumnInference {
+  type: FieldType;
+  // Share of non-empty values that fit `type`, from 0 to 1
+  confidence: number;
+  // Share of values fitting each candidate type, for overriding the choice
+  scores: Partial<Record<FieldType, number>>;
+  sampleSize: number;
+  // Day/month order read from the column's values, used if it's imported as a date
+  dateFormat: DateFormat;
+  // True when every value reads either way, like 03/04/2025
+  dateFormatAmbiguous: boolean;
+}
+
+// Share of a column's values that fit `type`; text-like types accept anything
+export const typeFit = (column: ColumnInference, type: FieldType) => column.scores[type] ?? 1;
+
+const sampleValues = (values: unknown[]) => {
+  if (values.length <= MAX_SAMPLE_SIZE) return values;
+  const step = values.length / MAX_SAMPLE_SIZE;
+  return Array.from({ length: MAX_SAMPLE_SIZE }, (_, i) => values[Math.floor(i * step)]);
+};
+
+/**
+ * Infers a column's type by letting every value vote: each candidate type is
+ * scored by the share of values it fits, and the most specific type that
+ * clears MIN_CONFIDENCE wins. Otherwise the column stays text.
+ */
+export const inferColumnType = (values: unknown[]): ColumnInference => {
+  const sample = sampleValues(values.filter(value => !isEmptyCell(value)));
+  const { format: dateFormat, ambiguous: dateFormatAmbiguous } = detectDateFormat(
+    sample.filter((value): value is string => typeof value === 'string')
+  );
+  if (sample.length === 0) {
+    return { type: 'text', confidence: 1, scores: { text: 1 }, sampleSize: 0, dateFormat, dateFormatAmbiguous };
+  }
+
+  // Identifiers like zip codes lose their leading zeros as numbers, so keep them as text
+  const hasLeadingZeros = sample.some(value => typeof value === 'string' && LEADING_ZERO_PATTERN.test(value.trim()));
+
+  const scores: Partial<Record<FieldType, number>> = { text: 1 };
+  CANDIDATE_TYPES.forEach(type => {
+    scores[type] = sample.filter(value => fitsType(value, type, dateFormat)).length / sample.length;
+  });
+
+  const best = CANDIDATE_TYPES.reduce<FieldType | null>((winner, type) => {
+    const score = scores[type] ?? 0;
+    if (score < MIN_CONFIDENCE) return winner;
+    if (hasLeadingZeros && (type === 'number' || type === 'currency')) return winner;
+    return winner === null || score > (scores[winner] ?? 0) ? type : winner;
+  }, null);
+
+  const type = best ?? 'text';
+  return { type, confidence: scores[type] ?? 1, scores, sampleSize: sample.length, dateFormat, dateFormatAmbiguous };
+};
+
+// Fills in type-specific config from the column's values: currency code,
+// decimal places, or an option list for low-cardinality text columns
+const configureField = (
+  type: Field['type'],
+  values: unknown[],
+  // Only an inferred text column may be upgraded to a select; an explicit choice stays as is
+  autoSelect = true
+): Pick<Field, 'type' | 'options' | 'currency' | 'decimals'> => {
+  const strings = values.map(value => String(value).trim());
+
+  switch (type) {
+    case 'currency': {
+      const first = strings[0] ?? '';
+      const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => first.includes(s));
+      const code = CURRENCIES.find(c => first.includes(c));
+      return { type, currency: code || (symbol ? CURRENCY_SYMBOLS[symbol] : 'USD'), decimals: 2 };
+    }
+    case 'percent': {
+      const decimals = Math.max(0, ...strings.map(str => str.replace('%', '').split('.')[1]?.trim().length ?? 0));
+      return { type, decimals: Math.min(decimals, 6) };
+    }
+    case 'select':
+      return { type, options: [...new Set(strings)].sort() };
+    case 'multiselect':
+      return { type, options: [...new Set(strings.flatMap(str => splitOptions(str)))].sort() };
+    case 'text': {
+      if (!autoSelect || values.length < 4) return { type };
+      const distinct = new Set(strings);
+      // Only worth a select if values actually repeat
+      if (distinct.size <= MAX_SELECT_OPTIONS && distinct.size <= values.length / 2) {
+        return { type: 'select', options: [...distinct].sort() };
+      }
+      if (strings.some(str => /[,;]/.test(str))) {
+        const tokens = new Set(strings.flatMap(str => splitOptions(str)));
+        if (tokens.size <= MAX_SELECT_OPTIONS && tokens.size < values.length) {
+          return { type: 'multiselect', options: [...tokens].sort() };
+        }
+      }
+      return { type };
+    }
+    default:
+      return { type };
+  }
+};
+
+// Rows converted between progress reports
+const PROGRESS_INTERVAL = 5000;
+
+// Turns a grid (header row first) into fields with inferred types and converted
+// rows. `typeOverrides` replaces the inferred type of a column, `dateFormats`
+// its detected day/month order and `policies` what to do with values that
+// don't fit (left empty by default), all keyed by column index. `origins`
+// gives where each row below the header came from, for reporting issues;
+// without it rows are numbered as they are in the grid.
+export const buildImport = (
+  grid: unknown[][],
+  typeOverrides: Record<number, FieldType> = {},
+  dateFormats: Record<number, DateFormat> = {},
+  policies: Record<number, FailurePolicy> = {},
+  onProgress?: (done: number, total: number) => void,
+  origins?: RowOrigin[]
+): ImportResult => {
+  if (grid.length < 2) {
+    throw new Error('Excel file must have at least a header row and one data row');
+  }
+
+  // Extract headers (first row); Array.from fills holes left by blank header cells
+  const headers = uniqueHeaderNames(Array.from(grid[0]));
+  const dataRows = grid.slice(1);
+
+  const columns = headers.map((_, index) => {
+    const inferred = inferColumnType(dataRows.map(row => row[index]));
+    return dateFormats[index] ? { ...inferred, dateFormat: dateFormats[index], dateFormatAmbiguous: false } : inferred;
+  });
+
+  const fields: Field[] = headers.map((header, index) => {
+    const columnValues = dataRows
+      .map(row => row[index])
+      .filter(val => !isEmptyCell(val));
+    const override = typeOverrides[index];
+
+    return {
+      id: generateId('field'),
+      name: header,
+      required: false,
+      ...configureField(override ?? columns[index].type, columnValues, override === undefined)
+    };
+  });
+
+  // Convert data rows to table format, recording every value that doesn't fit
+  const issues: ImportIssue[] = [];
+  const data: TableRow[] = [];
+  const dataOrigins: RowOrigin[] = [];
+  const rows = dataRows
+    .map((row, index) => ({ row, origin: origins?.[index] ?? { row: index + 2 } }))
+    .filter(({ row }) => !isEmptyRow(row));
+  rows.forEach(({ row, origin }, rowIndex) => {
+    if (onProgress && rowIndex % PROGRESS_INTERVAL === 0) onProgress(rowIndex, rows.length);
+    const rowData: TableRow = {
+      id: generateId('row')
+    };
+    let skip = false;
+
+    fields.forEach((field, fieldIndex) => {
+      const converted = convertImportValue(
+        row[fieldIndex],
+        field.type,
+        { dateFormat: columns[fieldIndex].dateFormat },
+        policies[fieldIndex] ?? 'empty',
+        { ...origin, column: field.name },
+        issues
+      );
+      rowData[field.id] = converted.value;
+      if (converted.skip) skip = true;
+    });
+
+    if (!skip) {
+      data.push(rowData);
+      dataOrigins.push(origin);
+    }
+  });
+
+  return { fields, data, origins: dataOrigins, columns, issues, skippedRows: rows.length - data.length };
+};
@@ -0,0 +1,90 @@
+export type JsonRecord = Record<string, unknown>;
+
+// How nested objects become columns: "address.city" columns, or one column of JSON text
+export type NestedMode = 'flatten' | 'json';
+
+const isPlainObject = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toRecord = (value: unknown, position: string): JsonRecord => {
+  if (isPlainObject(value)) return value;
+  // A list of plain values still makes a usable single-column table
+  if (Array.isArray(value) || typeof value === 'object') {
+    throw new Error(`Expected an object ${position}`);
+  }
+  return { value };
+};
+
+/**
+ * Reads a JSON array of objects. API responses that wrap the array in an
+ * object, like { "data": [...] }, are unwrapped when there's a single array.
+ */
+export const parseJsonRecords = (text: string): JsonRecord[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (isPlainObject(parsed)) {
+    const arrays = Object.values(parsed).filter(Array.isArray);
+    parsed = arrays.length === 1 ? arrays[0] : [parsed];
+  }
+  if (!Array.isArray(parsed)) throw new Error('JSON file must contain an array of objects');
+  return parsed.map((item, index) => toRecord(item, `at item ${index + 1}`));
+};
+
+// Newline-delimited JSON: one object per line, blank lines ignored
+export const parseNdjsonRecords = (text: string): JsonRecord[] =>
+  text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    try {
+      return [toRecord(JSON.parse(line), `on line ${index + 1}`)];
+    } catch (err) {
+      if (err instanceof SyntaxError) throw new Error(`Line ${index + 1} is not valid JSON: ${err.message}`);
+      throw err;
+    }
+  });
+
+export const hasNestedValues = (records: JsonRecord[]) =>
+  records.some(record => Object.values(record).some(value => typeof value === 'object' && value !== null));
+
+// Lists of plain values read like multi-select cells; anything deeper stays JSON text
+const toCell = (value: unknown): unknown => {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item !== 'object' || item === null)
+      ? value.filter(item => item !== null).join(', ')
+      : JSON.stringify(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+};
+
+const flattenRecord = (record: JsonRecord, mode: NestedMode, prefix = '', out: JsonRecord = {}): JsonRecord => {
+  Object.entries(record).forEach(([key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (mode === 'flatten' && isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenRecord(value, mode, name, out);
+    } else {
+      out[name] = toCell(value);
+    }
+  });
+  return out;
+};
+
+/**
+ * Lays records out as a grid with a header row, so they go through the same
+ * type inference and preview as spreadsheets. Columns follow the order keys
+ * are first seen in.
+ */
+export const recordsToGrid = (records: JsonRecord[], mode: NestedMode): unknown[][] => {
+  const flat = records.map(record => flattenRecord(record, mode));
+  const keys = [...new Set(flat.flatMap(record => Object.keys(record)))];
+  // A key that's null in some records and an object in others only needs its dotted columns
+  const headers = keys.filter(key =>
+    !keys.some(other => other.startsWith(`${key}.`)) || flat.some(record => record[key] !== undefined)
+  );
+  return [headers, ...flat.map(record => headers.map(header => record[header]))];
+};
@@ -0,0 +1,51 @@
+import { ChartConfig, Dataset, TableRow } from '../types';
+
+/**
+ * Dataset format versions:
+ * 1 - row values keyed by field name
+ * 2 - row values keyed by field id, chart axes reference field ids
+ */
+export const CURRENT_DATASET_VERSION = 2;
+
+const keyRowsByFieldId = (dataset: Dataset): Dataset => {
+  const idByName = new Map(dataset.fields.map(field => [field.name, field.id]));
+  const toFieldId = (key: string) => idByName.get(key) ?? key;
+
+  const data = dataset.data.map(row => {
+    const migrated: TableRow = { id: row.id };
+    dataset.fields.forEach(field => {
+      if (field.id in row) {
+        migrated[field.id] = row[field.id];
+      } else if (field.name in row) {
+        migrated[field.id] = row[field.name];
+      }
+    });
+    return migrated;
+  });
+
+  const charts = (dataset.charts || []).map((chart): ChartConfig => ({
+    ...chart,
+    xAxis: chart.xAxis ? toFieldId(chart.xAxis) : undefined,
+    yAxis: chart.yAxis.map(toFieldId)
+  }));
+
+  return { ...dataset, data, charts, version: 2 };
+};
+
+const migrations: Record<number, (dataset: Dataset) => Dataset> = {
+  1: keyRowsByFieldId
+};
+
+export const needsMigration = (dataset: Dataset) =>
+  (dataset.version ?? 1) < CURRENT_DATASET_VERSION;
+
+// Datasets saved before versioning existed have no version and count as 1
+export const migrateDataset = (dataset: Dataset): Dataset => {
+  let migrated = dataset;
+  let version = dataset.version ?? 1;
+  while (version < CURRENT_DATASET_VERSION) {
+    migrated = migrations[version]({ ...migrated, version });
+    version = migrated.version;
+  }
+  return migrated;
+};
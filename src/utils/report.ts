@@ -0,0 +1,160 @@
+import { Field, TableRow } from '../types';
+import { isEmptyValue } from './convert';
+import { formatCellValue, getTypeLabel } from './fieldTypes';
+
+export interface FieldSummary {
+  name: string;
+  type: string;
+  filled: number;
+  // Label/value pairs, e.g. Mean 12.5
+  stats: [string, string][];
+}
+
+export interface ReportChart {
+  title: string;
+  // Standalone SVG markup, see utils/chartExport
+  svg: string;
+}
+
+export interface ReportContent {
+  title: string;
+  notes: string;
+  charts: ReportChart[];
+  summaries: FieldSummary[];
+  table?: { fields: Field[]; rows: TableRow[]; totalRows: number };
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Summary statistics for one column: count, sum, mean, min and max for
+ * numbers; yes/no counts for booleans; distinct values and the most common
+ * one for everything else.
+ */
+export const summarizeField = (field: Field, rows: TableRow[], numeric: boolean): FieldSummary => {
+  const values = rows.map(row => row[field.id]).filter(value => !isEmptyValue(value));
+  const summary = { name: field.name, type: getTypeLabel(field.type), filled: values.length };
+
+  if (numeric) {
+    const numbers = values.filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+    if (numbers.length === 0) return { ...summary, stats: [] };
+    // One pass; spreading hundreds of thousands of values into Math.min overflows the stack
+    const { sum, min, max } = numbers.reduce(
+      (acc, value) => ({ sum: acc.sum + value, min: Math.min(acc.min, value), max: Math.max(acc.max, value) }),
+      { sum: 0, min: Infinity, max: -Infinity }
+    );
+    return {
+      ...summary,
+      stats: [
+        ['Sum', formatNumber(sum)],
+        ['Mean', formatNumber(sum / numbers.length)],
+        ['Min', formatNumber(min)],
+        ['Max', formatNumber(max)]
+      ]
+    };
+  }
+
+  if (field.type === 'boolean') {
+    const yes = rows.filter(row => row[field.id] === true).length;
+    return { ...summary, filled: rows.length, stats: [['Yes', String(yes)], ['No', String(rows.length - yes)]] };
+  }
+
+  const counts = new Map<string, number>();
+  values.flatMap(value => (Array.isArray(value) ? value : [value])).forEach(value => {
+    const text = formatCellValue(value, field.type === 'multiselect' ? { type: 'text' } : field);
+    counts.set(text, (counts.get(text) ?? 0) + 1);
+  });
+  const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return {
+    ...summary,
+    stats: [
+      ['Distinct', String(counts.size)],
+      ...(top ? [['Most common', `${top[0]} (${top[1]})`] as [string, string]] : [])
+    ]
+  };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Blank lines separate paragraphs; single line breaks are kept
+const notesToHtml = (notes: string) =>
+  notes
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 40px; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2937; background: #fff; }
+  main { max-width: 960px; margin: 0 auto; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; padding-bottom: 6px; border-bottom: 1px solid #e5e7eb; }
+  .meta { color: #6b7280; font-size: 13px; margin: 0 0 24px; }
+  .notes p { line-height: 1.6; margin: 0 0 12px; }
+  .chart { margin: 0 0 24px; break-inside: avoid; page-break-inside: avoid; }
+  .chart svg { max-width: 100%; height: auto; border: 1px solid #e5e7eb; border-radius: 8px; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(200px, 1fr)); gap: 12px; }
+  .stat { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; break-inside: avoid; page-break-inside: avoid; }
+  .stat h3 { font-size: 14px; margin: 0; }
+  .stat .type { color: #6b7280; font-size: 12px; margin: 0 0 8px; }
+  .stat dl { display: grid; grid-template-columns: auto 1fr; gap: 2px 12px; margin: 0; font-size: 13px; }
+  .stat dt { color: #6b7280; }
+  .stat dd { margin: 0; text-align: right; font-variant-numeric: tabular-nums; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; font-weight: 600; }
+  tr { break-inside: avoid; page-break-inside: avoid; }
+  .excerpt { color: #6b7280; font-size: 13px; margin-top: 8px; }
+  @media print {
+    body { padding: 0; }
+    thead { display: table-header-group; }
+    @page { margin: 16mm; }
+  }
+`;
+
+const summaryHtml = (summary: FieldSummary) => `
+  <div class="stat">
+    <h3>${escapeHtml(summary.name)}</h3>
+    <p class="type">${escapeHtml(summary.type)}</p>
+    <dl>
+      <dt>Filled</dt><dd>${summary.filled}</dd>
+      ${summary.stats.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}
+    </dl>
+  </div>`;
+
+const tableHtml = ({ fields, rows, totalRows }: NonNullable<ReportContent['table']>) => `
+  <table>
+    <thead><tr>${fields.map(field => `<th>${escapeHtml(field.name)}</th>`).join('')}</tr></thead>
+    <tbody>
+      ${rows.map(row => `<tr>${fields.map(field => `<td>${escapeHtml(formatCellValue(row[field.id], field))}</td>`).join('')}</tr>`).join('\n      ')}
+    </tbody>
+  </table>
+  ${rows.length < totalRows ? `<p class="excerpt">First ${rows.length} of ${totalRows} rows</p>` : ''}`;
+
+/**
+ * One HTML file with everything inline: styles, chart SVGs and data, so it
+ * opens offline and prints to PDF from any browser.
+ */
+export const buildReportHtml = (content: ReportContent, generatedAt = new Date()): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(content.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<main>
+  <h1>${escapeHtml(content.title)}</h1>
+  <p class="meta">Generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+  ${content.notes.trim() ? `<section class="notes">${notesToHtml(content.notes)}</section>` : ''}
+  ${content.charts.length > 0 ? `<h2>Charts</h2>\n  ${content.charts.map(chart => `<figure class="chart" aria-label="${escapeHtml(chart.title)}">${chart.svg}</figure>`).join('\n  ')}` : ''}
+  ${content.summaries.length > 0 ? `<h2>Summary</h2>\n  <div class="stats">${content.summaries.map(summaryHtml).join('')}</div>` : ''}
+  ${content.table ? `<h2>Data</h2>${tableHtml(content.table)}` : ''}
+</main>
+</body>
+</html>
+`;
@@ -0,0 +1,80 @@
+import { Field, SortKey, TableRow } from '../types';
+import { isEmptyValue, toPlainText } from './convert';
+import { parseDateParts, toExcelSerial } from './dates';
+import { isNumericType } from './fieldTypes';
+
+type SortValue = number | string | null;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Reduces a cell to something comparable for its field type; null means empty
+const sortValue = (value: unknown, field: Field): SortValue => {
+  if (isEmptyValue(value) || (Array.isArray(value) && value.length === 0)) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+  if (field.type === 'date' || field.type === 'datetime') {
+    const parts = parseDateParts(value, 'ISO');
+    if (parts) return toExcelSerial(parts);
+  }
+  if (isNumericType(field.type)) {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return toPlainText(value);
+};
+
+// Numbers sort before text when a column holds both
+const compareValues = (a: number | string, b: number | string) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return collator.compare(a, b);
+};
+
+/**
+ * Orders rows by each sort key in turn. Numbers, dates and booleans compare
+ * by value and text compares by locale, with digits read as numbers. Empty
+ * values go last in either direction, and ties keep their original order.
+ */
+export const sortRows = (rows: TableRow[], fields: Field[], sort: SortKey[] = []): TableRow[] => {
+  const keys = sort
+    .map(key => ({ ...key, field: fields.find(field => field.id === key.fieldId) }))
+    .filter((key): key is SortKey & { field: Field } => key.field !== undefined);
+  if (keys.length === 0) return rows;
+
+  return rows
+    .map((row, index) => ({ row, index, values: keys.map(key => sortValue(row[key.fieldId], key.field)) }))
+    .sort((a, b) => {
+      for (let i = 0; i < keys.length; i++) {
+        const left = a.values[i];
+        const right = b.values[i];
+        if (left === right) continue;
+        if (left === null) return 1;
+        if (right === null) return -1;
+        const order = compareValues(left, right);
+        if (order !== 0) return keys[i].direction === 'asc' ? order : -order;
+      }
+      return a.index - b.index;
+    })
+    .map(({ row }) => row);
+};
+
+/**
+ * Next sort after a header click. A plain click sorts by that column alone,
+ * cycling ascending, descending, unsorted. With `additive` (shift-click) the
+ * column is added as the next key, or cycled in place if it's already a key.
+ */
+export const toggleSort = (sort: SortKey[], fieldId: string, additive: boolean): SortKey[] => {
+  const existing = sort.find(key => key.fieldId === fieldId);
+
+  if (!additive) {
+    if (!existing || sort.length > 1) return [{ fieldId, direction: 'asc' }];
+    return existing.direction === 'asc' ? [{ fieldId, direction: 'desc' }] : [];
+  }
+
+  if (!existing) return [...sort, { fieldId, direction: 'asc' }];
+  return existing.direction === 'asc'
+    ? sort.map(key => (key.fieldId === fieldId ? { fieldId, direction: 'desc' } : key))
+    : sort.filter(key => key.fieldId !== fieldId);
+};
@@ -0,0 +1,360 @@
+import { Dataset, Field, TableRow } from '../types';
+import { createDataset } from './datasets';
+
+export interface WorkspaceSnapshot {
+  datasets: Dataset[];
+  activeDatasetId: string | null;
+}
+
+// Everything about a dataset except its rows, which are stored one record per row
+export type DatasetRecord = Omit<Dataset, 'data'>;
+
+export interface RowChanges {
+  datasetId: string;
+  upserts: TableRow[];
+  deletedIds: string[];
+  // Only set when rows were added, removed or reordered
+  order?: string[];
+}
+
+export interface StorageChanges {
+  datasets: DatasetRecord[];
+  deletedDatasetIds: string[];
+  rows: RowChanges[];
+  activeDatasetId?: string | null;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export interface WorkspaceStorage {
+  kind: 'indexeddb' | 'localstorage';
+  load: () => Promise<WorkspaceSnapshot>;
+  applyChanges: (changes: StorageChanges) => Promise<void>;
+  estimateUsage: () => Promise<StorageUsage | null>;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const DB_NAME = 'dataDive';
+const DB_VERSION = 1;
+const DATASETS_STORE = 'datasets';
+const ROWS_STORE = 'rows';
+const ROW_ORDER_STORE = 'rowOrder';
+const SETTINGS_STORE = 'settings';
+const ACTIVE_DATASET_SETTING = 'activeDatasetId';
+
+const LOCAL_DATASETS_KEY = 'dynamicApp_datasets';
+const LOCAL_ACTIVE_DATASET_KEY = 'dynamicApp_activeDataset';
+const LEGACY_FIELDS_KEY = 'dynamicApp_fields';
+const LEGACY_DATA_KEY = 'dynamicApp_data';
+
+interface RowRecord {
+  datasetId: string;
+  id: string;
+  row: TableRow;
+}
+
+interface RowOrderRecord {
+  datasetId: string;
+  ids: string[];
+}
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const toStorageError = (error: unknown) =>
+  isQuotaError(error) ? new StorageQuotaError() : error;
+
+const readJson = <T>(key: string): T | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Reads whatever an older build left in localStorage: the single-dataset
+ * workspace format, or the original fields/data pair from before datasets existed.
+ */
+const readLocalStorageWorkspace = (): WorkspaceSnapshot | null => {
+  const datasets = readJson<Dataset[]>(LOCAL_DATASETS_KEY);
+  if (datasets && datasets.length > 0) {
+    return { datasets, activeDatasetId: localStorage.getItem(LOCAL_ACTIVE_DATASET_KEY) };
+  }
+
+  const legacyFields = readJson<Field[]>(LEGACY_FIELDS_KEY);
+  const legacyData = readJson<TableRow[]>(LEGACY_DATA_KEY);
+  if (legacyFields || legacyData) {
+    // Those rows are keyed by field name, so mark the dataset for migration
+    const dataset = { ...createDataset('My Dataset', legacyFields || [], legacyData || []), version: 1 };
+    return { datasets: [dataset], activeDatasetId: null };
+  }
+
+  return null;
+};
+
+const clearLocalStorageWorkspace = () => {
+  [LOCAL_DATASETS_KEY, LOCAL_ACTIVE_DATASET_KEY, LEGACY_FIELDS_KEY, LEGACY_DATA_KEY]
+    .forEach(key => localStorage.removeItem(key));
+};
+
+const toRecord = (dataset: Dataset): DatasetRecord => {
+  const record: Partial<Dataset> = { ...dataset };
+  delete record.data;
+  return record as DatasetRecord;
+};
+
+const sameOrder = (a: TableRow[], b: TableRow[]) =>
+  a.length === b.length && a.every((row, index) => row.id === b[index].id);
+
+/**
+ * Works out what needs writing to move storage from `prev` to `next`.
+ * Rows are compared by reference, so an edit to one cell only rewrites that row.
+ */
+export const diffWorkspace = (prev: WorkspaceSnapshot, next: WorkspaceSnapshot): StorageChanges => {
+  const prevById = new Map(prev.datasets.map(dataset => [dataset.id, dataset]));
+  const nextIds = new Set(next.datasets.map(dataset => dataset.id));
+  const changes: StorageChanges = {
+    datasets: [],
+    deletedDatasetIds: prev.datasets.filter(dataset => !nextIds.has(dataset.id)).map(dataset => dataset.id),
+    rows: []
+  };
+
+  next.datasets.forEach(dataset => {
+    const previous = prevById.get(dataset.id);
+    if (previous === dataset) return;
+
+    changes.datasets.push(toRecord(dataset));
+
+    if (!previous) {
+      changes.rows.push({
+        datasetId: dataset.id,
+        upserts: dataset.data,
+        deletedIds: [],
+        order: dataset.data.map(row => row.id)
+      });
+      return;
+    }
+
+    if (previous.data === dataset.data) return;
+
+    const previousRows = new Map(previous.data.map(row => [row.id, row]));
+    const currentIds = new Set(dataset.data.map(row => row.id));
+    changes.rows.push({
+      datasetId: dataset.id,
+      upserts: dataset.data.filter(row => previousRows.get(row.id) !== row),
+      deletedIds: previous.data.filter(row => !currentIds.has(row.id)).map(row => row.id),
+      order: sameOrder(previous.data, dataset.data) ? undefined : dataset.data.map(row => row.id)
+    });
+  });
+
+  if (prev.activeDatasetId !== next.activeDatasetId) {
+    changes.activeDatasetId = next.activeDatasetId;
+  }
+
+  return changes;
+};
+
+export const hasChanges = (changes: StorageChanges) =>
+  changes.datasets.length > 0 ||
+  changes.deletedDatasetIds.length > 0 ||
+  changes.rows.length > 0 ||
+  changes.activeDatasetId !== undefined;
+
+const estimateUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(DATASETS_STORE, { keyPath: 'id' });
+      db.createObjectStore(ROWS_STORE, { keyPath: ['datasetId', 'id'] }).createIndex('datasetId', 'datasetId');
+      db.createObjectStore(ROW_ORDER_STORE, { keyPath: 'datasetId' });
+      db.createObjectStore(SETTINGS_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStorage = (db: IDBDatabase): WorkspaceStorage => {
+  const applyChanges = async (changes: StorageChanges) => {
+    const transaction = db.transaction([DATASETS_STORE, ROWS_STORE, ROW_ORDER_STORE, SETTINGS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const datasetStore = transaction.objectStore(DATASETS_STORE);
+    const rowStore = transaction.objectStore(ROWS_STORE);
+    const orderStore = transaction.objectStore(ROW_ORDER_STORE);
+
+    changes.deletedDatasetIds.forEach(datasetId => {
+      datasetStore.delete(datasetId);
+      orderStore.delete(datasetId);
+      rowStore.delete(IDBKeyRange.bound([datasetId], [datasetId, []]));
+    });
+
+    changes.datasets.forEach(record => datasetStore.put(record));
+
+    changes.rows.forEach(({ datasetId, upserts, deletedIds, order }) => {
+      deletedIds.forEach(id => rowStore.delete([datasetId, id]));
+      upserts.forEach(row => rowStore.put({ datasetId, id: row.id, row } satisfies RowRecord));
+      if (order) orderStore.put({ datasetId, ids: order } satisfies RowOrderRecord);
+    });
+
+    if (changes.activeDatasetId !== undefined) {
+      transaction.objectStore(SETTINGS_STORE).put(changes.activeDatasetId, ACTIVE_DATASET_SETTING);
+    }
+
+    try {
+      await done;
+    } catch (error) {
+      throw toStorageError(error);
+    }
+  };
+
+  const readWorkspace = async (): Promise<WorkspaceSnapshot> => {
+    const transaction = db.transaction([DATASETS_STORE, ROWS_STORE, ROW_ORDER_STORE, SETTINGS_STORE], 'readonly');
+    const [records, rowRecords, orders, activeDatasetId] = await Promise.all([
+      requestToPromise(transaction.objectStore(DATASETS_STORE).getAll() as IDBRequest<DatasetRecord[]>),
+      requestToPromise(transaction.objectStore(ROWS_STORE).getAll() as IDBRequest<RowRecord[]>),
+      requestToPromise(transaction.objectStore(ROW_ORDER_STORE).getAll() as IDBRequest<RowOrderRecord[]>),
+      requestToPromise(transaction.objectStore(SETTINGS_STORE).get(ACTIVE_DATASET_SETTING) as IDBRequest<string | null | undefined>)
+    ]);
+
+    const rowsByDataset = new Map<string, Map<string, TableRow>>();
+    rowRecords.forEach(({ datasetId, id, row }) => {
+      if (!rowsByDataset.has(datasetId)) rowsByDataset.set(datasetId, new Map());
+      rowsByDataset.get(datasetId)!.set(id, row);
+    });
+    const orderByDataset = new Map(orders.map(order => [order.datasetId, order.ids]));
+
+    const datasets = records
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(record => {
+        const rows = rowsByDataset.get(record.id) || new Map<string, TableRow>();
+        const ordered = (orderByDataset.get(record.id) || [])
+          .filter(id => rows.has(id))
+          .map(id => rows.get(id)!);
+        // Rows missing from the order list (e.g. an interrupted write) are kept at the end
+        const orderedIds = new Set(ordered.map(row => row.id));
+        const stray = [...rows.values()].filter(row => !orderedIds.has(row.id));
+        return { ...record, data: [...ordered, ...stray] };
+      });
+
+    return { datasets, activeDatasetId: activeDatasetId ?? null };
+  };
+
+  const load = async () => {
+    const snapshot = await readWorkspace();
+    if (snapshot.datasets.length > 0) return snapshot;
+
+    // First run on IndexedDB: move any localStorage workspace across
+    const legacy = readLocalStorageWorkspace();
+    if (!legacy) return snapshot;
+
+    await applyChanges(diffWorkspace({ datasets: [], activeDatasetId: null }, legacy));
+    clearLocalStorageWorkspace();
+    return legacy;
+  };
+
+  return { kind: 'indexeddb', load, applyChanges, estimateUsage };
+};
+
+/**
+ * Fallback for browsers without IndexedDB (some private browsing modes).
+ * Keeps the whole workspace in memory and rewrites it as one JSON blob.
+ */
+const createLocalStorage = (): WorkspaceStorage => {
+  let current: WorkspaceSnapshot = { datasets: [], activeDatasetId: null };
+
+  const load = async () => {
+    current = readLocalStorageWorkspace() || current;
+    return current;
+  };
+
+  const applyChanges = async (changes: StorageChanges) => {
+    const deleted = new Set(changes.deletedDatasetIds);
+    const records = new Map(changes.datasets.map(record => [record.id, record]));
+    const rowChanges = new Map(changes.rows.map(change => [change.datasetId, change]));
+
+    const datasets = current.datasets
+      .filter(dataset => !deleted.has(dataset.id))
+      .map(dataset => ({ ...dataset, ...records.get(dataset.id) }));
+    records.forEach(record => {
+      if (!datasets.some(dataset => dataset.id === record.id)) datasets.push({ ...record, data: [] });
+    });
+
+    const next: WorkspaceSnapshot = {
+      datasets: datasets.map(dataset => {
+        const change = rowChanges.get(dataset.id);
+        if (!change) return dataset;
+        const rows = new Map(dataset.data.map(row => [row.id, row]));
+        change.deletedIds.forEach(id => rows.delete(id));
+        change.upserts.forEach(row => rows.set(row.id, row));
+        const order = change.order || dataset.data.map(row => row.id).filter(id => rows.has(id));
+        return { ...dataset, data: order.map(id => rows.get(id)!).filter(Boolean) };
+      }),
+      activeDatasetId: changes.activeDatasetId !== undefined ? changes.activeDatasetId : current.activeDatasetId
+    };
+
+    try {
+      localStorage.setItem(LOCAL_DATASETS_KEY, JSON.stringify(next.datasets));
+      if (next.activeDatasetId) localStorage.setItem(LOCAL_ACTIVE_DATASET_KEY, next.activeDatasetId);
+    } catch (error) {
+      throw toStorageError(error);
+    }
+    current = next;
+  };
+
+  return { kind: 'localstorage', load, applyChanges, estimateUsage };
+};
+
+export const openWorkspaceStorage = async (): Promise<WorkspaceStorage> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorage();
+  try {
+    return createIndexedDbStorage(await openDatabase());
+  } catch (error) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', error);
+    return createLocalStorage();
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,168 @@
+import { Field, FieldType, TableRow, ValidationRules } from '../types';
+import { isEmptyValue, tryConvertValue } from './convert';
+import { isNumericType } from './fieldTypes';
+
+export interface ValidationIssue {
+  rowId: string;
+  rowIndex: number;
+  fieldId: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  // rowId -> fieldId -> message, for highlighting cells
+  byRow: Map<string, Record<string, string>>;
+}
+
+type RuleKey = keyof ValidationRules;
+
+// Which rules can be configured for each kind of field
+export const rulesForType = (type: FieldType): RuleKey[] => {
+  if (type === 'formula') return [];
+  if (isNumericType(type)) return ['min', 'max', 'unique'];
+  if (type === 'date' || type === 'datetime') return ['minDate', 'maxDate', 'unique'];
+  if (type === 'text' || type === 'email' || type === 'url') return ['minLength', 'maxLength', 'pattern', 'unique'];
+  if (type === 'select') return ['unique'];
+  return [];
+};
+
+// Drops rules that don't apply to the type, e.g. after the field's type changes
+export const rulesFor = (field: Field): ValidationRules => {
+  const applicable = rulesForType(field.type);
+  return Object.fromEntries(
+    Object.entries(field.validation || {}).filter(([key, value]) =>
+      applicable.includes(key as RuleKey) && value !== undefined && value !== '' && value !== false
+    )
+  );
+};
+
+export const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+export const describeRules = (field: Field): string[] => {
+  const rules = rulesFor(field);
+  const descriptions: string[] = [];
+  if (rules.min !== undefined && rules.max !== undefined) descriptions.push(`${rules.min} to ${rules.max}`);
+  else if (rules.min !== undefined) descriptions.push(`≥ ${rules.min}`);
+  else if (rules.max !== undefined) descriptions.push(`≤ ${rules.max}`);
+  if (rules.minLength !== undefined) descriptions.push(`min ${rules.minLength} chars`);
+  if (rules.maxLength !== undefined) descriptions.push(`max ${rules.maxLength} chars`);
+  if (rules.pattern) descriptions.push(`matches /${rules.pattern}/`);
+  if (rules.minDate) descriptions.push(`from ${rules.minDate}`);
+  if (rules.maxDate) descriptions.push(`until ${rules.maxDate}`);
+  if (rules.unique) descriptions.push('unique');
+  return descriptions;
+};
+
+const isBlank = (value: unknown) => isEmptyValue(value) || (Array.isArray(value) && value.length === 0);
+
+const uniqueKey = (value: unknown) => String(value).trim().toLowerCase();
+
+interface CompiledRules {
+  rules: ValidationRules;
+  pattern: RegExp | null;
+}
+
+// A field's rules with the pattern compiled, so a whole column can share them
+const compileRules = (field: Field): CompiledRules => {
+  const rules = rulesFor(field);
+  return { rules, pattern: rules.pattern ? compilePattern(rules.pattern) : null };
+};
+
+/**
+ * Checks a single value against its field's type, `required` flag and rules.
+ * Uniqueness needs the other rows and is checked in validateRows.
+ */
+export const validateValue = (value: unknown, field: Field, compiled: CompiledRules = compileRules(field)): string | null => {
+  if (field.type === 'formula') return null;
+
+  if (isBlank(value)) {
+    // An unticked checkbox is still an answer
+    return field.required && field.type !== 'boolean' ? 'Required' : null;
+  }
+
+  const converted = tryConvertValue(value, field.type, { timeZone: field.timeZone });
+  if (!converted.ok) return converted.reason;
+
+  if (field.type === 'select' && field.options?.length && !field.options.includes(String(value))) {
+    return `"${value}" is not one of the options`;
+  }
+  if (field.type === 'multiselect' && field.options?.length && Array.isArray(value)) {
+    const unknown = value.find(option => !field.options!.includes(option));
+    if (unknown !== undefined) return `"${unknown}" is not one of the options`;
+  }
+
+  const { rules, pattern } = compiled;
+  const number = Number(converted.value);
+  if (rules.min !== undefined && number < rules.min) return `Must be at least ${rules.min}`;
+  if (rules.max !== undefined && number > rules.max) return `Must be at most ${rules.max}`;
+
+  const text = String(value);
+  if (rules.minLength !== undefined && text.length < rules.minLength) return `Must be at least ${rules.minLength} characters`;
+  if (rules.maxLength !== undefined && text.length > rules.maxLength) return `Must be at most ${rules.maxLength} characters`;
+  if (pattern && !pattern.test(text)) return 'Does not match the required pattern';
+
+  // ISO date strings compare correctly as plain strings; datetimes compare by their day
+  const date = String(converted.value).slice(0, 10);
+  if (rules.minDate && date < rules.minDate) return `Must be on or after ${rules.minDate}`;
+  if (rules.maxDate && date > rules.maxDate) return `Must be on or before ${rules.maxDate}`;
+
+  return null;
+};
+
+export const validateRows = (rows: TableRow[], fields: Field[]): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const byRow = new Map<string, Record<string, string>>();
+
+  const addIssue = (row: TableRow, rowIndex: number, fieldId: string, message: string) => {
+    issues.push({ rowId: row.id, rowIndex, fieldId, message });
+    byRow.set(row.id, { ...byRow.get(row.id), [fieldId]: message });
+  };
+
+  fields.forEach(field => {
+    const seen = new Map<string, number>();
+    const compiled = compileRules(field);
+    const checkUnique = compiled.rules.unique;
+
+    rows.forEach((row, rowIndex) => {
+      const value = row[field.id];
+      const message = validateValue(value, field, compiled);
+      if (message) {
+        addIssue(row, rowIndex, field.id, message);
+        return;
+      }
+      if (checkUnique && !isBlank(value)) {
+        const key = uniqueKey(value);
+        const firstIndex = seen.get(key);
+        if (firstIndex === undefined) seen.set(key, rowIndex);
+        // Row numbers depend on how the table is sorted and filtered, so they're left out
+        else addIssue(row, rowIndex, field.id, 'Same value as another row');
+      }
+    });
+  });
+
+  issues.sort((a, b) => a.rowIndex - b.rowIndex);
+  return { issues, byRow };
+};
+
+// Checks a row that isn't in the table yet, including uniqueness against the existing rows
+export const validateNewRow = (row: TableRow, fields: Field[], existing: TableRow[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const value = row[field.id];
+    const message = validateValue(value, field);
+    if (message) {
+      errors[field.id] = message;
+    } else if (rulesFor(field).unique && !isBlank(value)) {
+      const index = existing.findIndex(other => !isBlank(other[field.id]) && uniqueKey(other[field.id]) === uniqueKey(value));
+      if (index !== -1) errors[field.id] = 'Same value as another row';
+    }
+  });
+  return errors;
+};
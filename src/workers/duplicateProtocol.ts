@@ -0,0 +1,14 @@
+import { TableRow } from '../types';
+import { DuplicateGroup, DuplicateOptions } from '../utils/duplicates';
+
+// Messages between DuplicateFinder and the duplicate worker. Rows carry only
+// their id and key fields, which is all matching looks at
+
+export interface DuplicateRequest {
+  rows: TableRow[];
+  options: DuplicateOptions;
+}
+
+export type DuplicateResponse =
+  | { type: 'groups'; groups: DuplicateGroup[] }
+  | { type: 'error'; message: string };
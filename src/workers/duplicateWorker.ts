@@ -0,0 +1,15 @@
+import { findDuplicateGroups } from '../utils/duplicates';
+import { DuplicateRequest, DuplicateResponse } from './duplicateProtocol';
+
+// Runs fuzzy duplicate matching off the main thread. Each search gets its own
+// worker, so a search that's no longer wanted is stopped by terminating it.
+
+const post = (message: DuplicateResponse) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (e: MessageEvent<DuplicateRequest>) => {
+  try {
+    post({ type: 'groups', groups: findDuplicateGroups(e.data.rows, e.data.options) });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Failed to look for duplicates' });
+  }
+};
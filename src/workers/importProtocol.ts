@@ -0,0 +1,67 @@
+import { FieldType, TableRow } from '../types';
+import { DateFormat } from '../utils/dates';
+import { FailurePolicy, GridSample, ImportResult, RowOrigin, SheetLayout, SheetSummary } from '../utils/importer';
+import { NestedMode } from '../utils/jsonImport';
+
+// Messages between ExcelUploader and the import worker, which keeps the
+// parsed file and the converted rows. Previews only get the first few rows;
+// the rest are sent over in chunks once the import is confirmed
+
+// Rows each preview shows
+export const PREVIEW_ROW_COUNT = 5;
+
+// Rows per message when sending converted rows back
+export const ROWS_PER_MESSAGE = 5000;
+
+// The grid a preview is built from: one sheet, several stacked sheets, or JSON records
+export type GridSource =
+  | { kind: 'sheets'; names: string[] }
+  | { kind: 'json'; nested: NestedMode };
+
+export interface BuildOptions {
+  source: GridSource;
+  // Detected from the grid when left out
+  layout?: SheetLayout;
+  overrides: Record<number, FieldType>;
+  dateFormats: Record<number, DateFormat>;
+  policies: Record<number, FailurePolicy>;
+}
+
+export type ImportRequest =
+  | { id: number; type: 'read'; file: File }
+  | ({ id: number; type: 'build' } & BuildOptions)
+  | { id: number; type: 'rows'; buildId: number };
+
+export type ImportStage = 'reading' | 'parsing' | 'building' | 'receiving';
+
+export interface ReadResult {
+  // Empty for JSON files, which have no sheets
+  sheets: SheetSummary[];
+  json: boolean;
+  // Whether any JSON record has nested objects or arrays
+  nested: boolean;
+}
+
+export interface BuildResult extends Omit<ImportResult, 'data' | 'origins'> {
+  // Fetches the converted rows with a 'rows' request; only the latest build of each source is kept
+  buildId: number;
+  rowCount: number;
+  previewRows: TableRow[];
+  layout: SheetLayout;
+  sample: GridSample;
+}
+
+// A build's converted rows, and where each came from in the file
+export interface BuiltRows {
+  data: TableRow[];
+  origins: RowOrigin[];
+}
+
+export type ImportResponse =
+  // `total` is 0 while the size of the work isn't known yet
+  | { id: number; type: 'progress'; stage: ImportStage; done: number; total: number }
+  | { id: number; type: 'read'; result: ReadResult }
+  | { id: number; type: 'build'; result: BuildResult }
+  // One chunk of a build's rows; the request is done once `done` reaches `total`
+  | ({ id: number; type: 'rows'; done: number; total: number } & BuiltRows)
+  | { id: number; type: 'error'; message: string };
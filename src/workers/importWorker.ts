@@ -0,0 +1,176 @@
+import * as XLSX from 'xlsx';
+import {
+  DEFAULT_LAYOUT,
+  SheetData,
+  appendSheets,
+  applyLayout,
+  RowOrigin,
+  buildImport,
+  detectLayout,
+  layoutRowRoles,
+  readWorkbookSheets,
+  sampleGrid,
+  sheetRowOrigins,
+  summarizeSheet
+} from '../utils/importer';
+import { createDelimitedParser, guessDelimiter } from '../utils/delimited';
+import { JsonRecord, hasNestedValues, parseJsonRecords, parseNdjsonRecords, recordsToGrid } from '../utils/jsonImport';
+import {
+  BuildOptions,
+  BuildResult,
+  BuiltRows,
+  ImportRequest,
+  ImportResponse,
+  ImportStage,
+  PREVIEW_ROW_COUNT,
+  ROWS_PER_MESSAGE,
+  ReadResult
+} from './importProtocol';
+
+// Parses and converts imports off the main thread. The last file read stays
+// here so type, date format and layout changes can rebuild the preview, and
+// so do the rows of each preview's latest build until the import is confirmed.
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+let sheets: SheetData[] = [];
+let records: JsonRecord[] | null = null;
+// Latest build per source, keyed by the source's JSON
+const builds = new Map<string, { buildId: number } & BuiltRows>();
+
+const post = (message: ImportResponse) => (self as unknown as Worker).postMessage(message);
+
+const reportProgress = (id: number, stage: ImportStage, done: number, total: number) =>
+  post({ id, type: 'progress', stage, done, total });
+
+// Reads the file a slice at a time so progress can be reported as it goes
+const readChunks = async (id: number, file: File, onChunk: (bytes: Uint8Array) => void) => {
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    reportProgress(id, 'reading', offset, file.size);
+    onChunk(new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer()));
+  }
+  reportProgress(id, 'reading', file.size, file.size);
+};
+
+const readText = async (id: number, file: File, onText: (text: string) => void) => {
+  const decoder = new TextDecoder();
+  // stream: true holds back characters split across chunk boundaries
+  await readChunks(id, file, bytes => onText(decoder.decode(bytes, { stream: true })));
+  onText(decoder.decode());
+};
+
+// CSV and TSV are parsed while they stream in, so the file is never held as one string
+const readDelimited = async (id: number, file: File, name: string): Promise<SheetData[]> => {
+  const delimiter = /\.tsv$/i.test(file.name) ? '\t' : guessDelimiter(await file.slice(0, 64 * 1024).text());
+  const parser = createDelimitedParser(delimiter);
+  const rows: unknown[][] = [];
+  // A chunk can complete more rows than push(...spread) accepts as arguments
+  const collect = (completed: string[][]) => completed.forEach(row => rows.push(row));
+  await readText(id, file, text => collect(parser.push(text)));
+  collect(parser.end());
+  return [{ name, rows }];
+};
+
+const readWorkbook = async (id: number, file: File): Promise<SheetData[]> => {
+  const data = new Uint8Array(file.size);
+  let offset = 0;
+  await readChunks(id, file, bytes => {
+    data.set(bytes, offset);
+    offset += bytes.length;
+  });
+  reportProgress(id, 'parsing', 0, 0);
+  // cellNF keeps number formats so date serials can be recognised
+  return readWorkbookSheets(XLSX.read(data, { type: 'array', cellNF: true }));
+};
+
+const readJson = async (id: number, file: File): Promise<JsonRecord[]> => {
+  let text = '';
+  await readText(id, file, chunk => {
+    text += chunk;
+  });
+  reportProgress(id, 'parsing', 0, 0);
+  return /\.json$/i.test(file.name) ? parseJsonRecords(text) : parseNdjsonRecords(text);
+};
+
+const read = async (id: number, file: File): Promise<ReadResult> => {
+  sheets = [];
+  records = null;
+  builds.clear();
+  const name = file.name.replace(/\.[^.]+$/, '');
+
+  if (/\.(json|ndjson|jsonl)$/i.test(file.name)) {
+    records = await readJson(id, file);
+    return { sheets: [], json: true, nested: hasNestedValues(records) };
+  }
+  sheets = /\.(csv|tsv)$/i.test(file.name) ? await readDelimited(id, file, name) : await readWorkbook(id, file);
+  return { sheets: sheets.map(summarizeSheet), json: false, nested: false };
+};
+
+// The grid to build from, with where each of its rows came from in the file
+const gridFor = ({ source }: BuildOptions): { grid: unknown[][]; origins: RowOrigin[] } => {
+  if (source.kind === 'json') {
+    if (!records) throw new Error('No JSON file has been read');
+    const grid = recordsToGrid(records, source.nested);
+    // The header comes first, so grid row N holds record N
+    return { grid, origins: grid.map((_, index) => ({ row: index })) };
+  }
+  // Keep workbook order regardless of the order sheets were chosen in
+  const chosen = sheets.filter(sheet => source.names.includes(sheet.name));
+  if (chosen.length === 0) throw new Error('No sheet selected');
+  return {
+    grid: chosen.length > 1 ? appendSheets(chosen) : chosen[0].rows,
+    origins: sheetRowOrigins(chosen)
+  };
+};
+
+const build = (id: number, options: BuildOptions): BuildResult => {
+  const { grid, origins } = gridFor(options);
+  // JSON grids are generated with the header first, so there's nothing to detect
+  const layout = options.layout ?? (options.source.kind === 'json' ? DEFAULT_LAYOUT : detectLayout(grid));
+  const roles = layoutRowRoles(grid, layout);
+  const result = buildImport(
+    applyLayout(grid, layout),
+    options.overrides,
+    options.dateFormats,
+    options.policies,
+    (done, total) => reportProgress(id, 'building', done, total),
+    origins.filter((_, index) => roles[index] === 'data')
+  );
+  const { data, origins: dataOrigins = [], ...summary } = result;
+  builds.set(JSON.stringify(options.source), { buildId: id, data, origins: dataOrigins });
+  return {
+    ...summary,
+    buildId: id,
+    rowCount: data.length,
+    previewRows: data.slice(0, PREVIEW_ROW_COUNT),
+    layout,
+    sample: sampleGrid(grid)
+  };
+};
+
+// Chunked so the page can keep drawing while a large import arrives
+const sendRows = (id: number, buildId: number) => {
+  const build = [...builds.values()].find(candidate => candidate.buildId === buildId);
+  if (!build) throw new Error('The preview changed before the import started; please try again');
+  const total = build.data.length;
+  for (let start = 0; start < total || start === 0; start += ROWS_PER_MESSAGE) {
+    const data = build.data.slice(start, start + ROWS_PER_MESSAGE);
+    const origins = build.origins.slice(start, start + ROWS_PER_MESSAGE);
+    post({ id, type: 'rows', data, origins, done: start + data.length, total });
+  }
+};
+
+self.onmessage = async (e: MessageEvent<ImportRequest>) => {
+  const request = e.data;
+  try {
+    if (request.type === 'read') {
+      post({ id: request.id, type: 'read', result: await read(request.id, request.file) });
+    } else if (request.type === 'build') {
+      post({ id: request.id, type: 'build', result: build(request.id, request) });
+    } else {
+      sendRows(request.id, request.buildId);
+    }
+  } catch (err) {
+    post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Failed to process file' });
+  }
+};